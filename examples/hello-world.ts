@@ -61,7 +61,7 @@ async function main() {
   // 3. Create a Fabric client
   const client = new FabricClient({ 
     gatewayUrl: GATEWAY_URL,
-    wsUrl: "ws://localhost:8088/ws/deliver", // Required for event service
+    wsUrl: "ws://localhost:8088/ws/deliver", // Optional: block events over the WebSocket proxy
   });
 
   // 4. Evaluate a transaction
@@ -0,0 +1,82 @@
+import { describe, it, expect, vi } from "vitest";
+import { create } from "@bufbuild/protobuf";
+import { EventCommitTracker } from "./commit-tracker";
+import { FilteredBlockSchema } from "../generated_protos/peer/events_pb";
+import { TxValidationCode } from "../generated_protos/peer/transaction_pb";
+import type { EventCallbacks, FilteredBlock, TransactionStatus } from "../models";
+
+function filteredBlock(number: bigint, txIds: string[]): FilteredBlock {
+  return create(FilteredBlockSchema, {
+    channelId: "mychannel",
+    number,
+    filteredTransactions: txIds.map((txid) => ({ txid, txValidationCode: TxValidationCode.VALID })),
+  });
+}
+
+function setUp() {
+  let callbacks: EventCallbacks<FilteredBlock> | undefined;
+  const unsubscribe = vi.fn();
+  const fetchStatus = vi.fn(
+    (txId: string, options: { signal?: AbortSignal }) =>
+      new Promise<TransactionStatus>((resolve, reject) => {
+        options.signal?.addEventListener("abort", () => reject(new Error("aborted")));
+        if (txId === "old") resolve({ txId, code: TxValidationCode.VALID, blockNumber: 1n });
+      }),
+  );
+  const tracker = new EventCommitTracker(
+    "mychannel",
+    (cb) => {
+      callbacks = cb;
+      return unsubscribe;
+    },
+    fetchStatus,
+  );
+  return { tracker, fetchStatus, unsubscribe, deliver: (block: FilteredBlock) => callbacks!.onData(block) };
+}
+
+describe("EventCommitTracker", () => {
+  it("should resolve waiters from the block stream once it's listening", async () => {
+    const { tracker, fetchStatus, deliver } = setUp();
+
+    const early = tracker.waitForCommit("old");
+    deliver(filteredBlock(10n, []));
+    const pending = [tracker.waitForCommit("tx1"), tracker.waitForCommit("tx2")];
+    deliver(filteredBlock(11n, ["tx1", "tx2"]));
+
+    await expect(early).resolves.toMatchObject({ txId: "old", blockNumber: 1n });
+    await expect(Promise.all(pending)).resolves.toEqual([
+      { txId: "tx1", code: TxValidationCode.VALID, blockNumber: 11n },
+      { txId: "tx2", code: TxValidationCode.VALID, blockNumber: 11n },
+    ]);
+    // Only the waiter registered before the first block needed commitStatus.
+    expect(fetchStatus).toHaveBeenCalledOnce();
+    await expect(tracker.waitForCommit("tx1")).resolves.toMatchObject({ blockNumber: 11n });
+  });
+
+  it("should still ask commitStatus for a transaction submitted before it was listening", async () => {
+    const { tracker, fetchStatus, deliver } = setUp();
+    const early = tracker.waitForCommit("old");
+    tracker.markSubmitted("tx4");
+    deliver(filteredBlock(10n, []));
+    await early;
+
+    const late = tracker.waitForCommit("tx4");
+
+    expect(fetchStatus).toHaveBeenCalledWith("tx4", expect.anything());
+    deliver(filteredBlock(11n, ["tx4"]));
+    await expect(late).resolves.toMatchObject({ txId: "tx4", blockNumber: 11n });
+  });
+
+  it("should fall back to commitStatus for pending waiters when closed", async () => {
+    const { tracker, fetchStatus, unsubscribe, deliver } = setUp();
+    await tracker.waitForCommit("old");
+    deliver(filteredBlock(10n, []));
+    const pending = tracker.waitForCommit("tx3");
+
+    tracker.close();
+
+    expect(unsubscribe).toHaveBeenCalledOnce();
+    expect(fetchStatus).toHaveBeenCalledWith("tx3", expect.anything());
+    pending.catch(() => {});
+  });
+});
@@ -0,0 +1,197 @@
+import type {
+  CommitOptions,
+  CommitTracker,
+  EventCallbacks,
+  FilteredBlock,
+  TransactionStatus,
+} from "../models";
+import { TimeoutError } from "../errors";
+import { abortError } from "../utils/backoff";
+
+/** How many recently committed transactions we remember, for waiters that show up after their block. */
+const RECENT_TRANSACTIONS_LIMIT = 10_000;
+
+interface Waiter {
+  resolve(status: TransactionStatus): void;
+  reject(error: unknown): void;
+  /** Cancels the waiter's `commitStatus` fallback, if it has one running. */
+  readonly fallback: AbortController;
+}
+
+/**
+ * Q: How does this beat a `commitStatus` call per transaction?
+ * A: It listens to the channel's filtered blocks (one shared stream) and checks every transaction in them
+ *    against the txIds being waited for. Hundreds of transactions, one stream, no extra signing.
+ *
+ * Q: What about a transaction that was committed before we started listening?
+ * A: We'd never see its block, so for those we ask `commitStatus` after all. Until the first block arrives
+ *    we can't tell, so every waiter registered before that gets a `commitStatus` call alongside the stream,
+ *    and whichever answers first wins. Once we're listening, a transaction submitted after that can't be
+ *    in a block we missed; and one whose block beat its waiter here is remembered for a while. The client
+ *    tells us about every submit (`markSubmitted`), so one submitted before we were listening still gets
+ *    its `commitStatus` call, however late it's waited for.
+ *    If the stream stops for good (or you `close()` the tracker), everything falls back to `commitStatus`.
+ */
+export class EventCommitTracker implements CommitTracker {
+  private readonly waiters = new Map<string, Set<Waiter>>();
+  private readonly recent = new Map<string, TransactionStatus>();
+  /** Submitted before the first block arrived, so their block may be one we never see. */
+  private readonly submittedEarly = new Set<string>();
+  private state: "idle" | "connecting" | "listening" | "stopped" = "idle";
+  private unsubscribe?: () => void;
+
+  constructor(
+    public readonly channelName: string,
+    private readonly subscribe: (
+      callbacks: EventCallbacks<FilteredBlock>,
+    ) => () => void,
+    private readonly fetchStatus: (
+      txId: string,
+      options: CommitOptions,
+    ) => Promise<TransactionStatus>,
+  ) {}
+
+  public waitForCommit(
+    txId: string,
+    options: CommitOptions = {},
+  ): Promise<TransactionStatus> {
+    const seen = this.recent.get(txId);
+    if (seen) {
+      return Promise.resolve(seen);
+    }
+    this.start();
+    if (this.state === "stopped") {
+      return this.fetchStatus(txId, options);
+    }
+
+    return new Promise((resolve, reject) => {
+      if (options.signal?.aborted) return reject(abortError());
+
+      let timer: ReturnType<typeof setTimeout> | undefined;
+      const onAbort = () => waiter.reject(abortError());
+      const settle = () => {
+        clearTimeout(timer);
+        options.signal?.removeEventListener("abort", onAbort);
+        waiter.fallback.abort();
+        this.removeWaiter(txId, waiter);
+      };
+      const waiter: Waiter = {
+        resolve: (status) => {
+          settle();
+          resolve(status);
+        },
+        reject: (error) => {
+          settle();
+          reject(error);
+        },
+        fallback: new AbortController(),
+      };
+
+      options.signal?.addEventListener("abort", onAbort, { once: true });
+      if (options.timeoutMs !== undefined) {
+        const timeoutMs = options.timeoutMs;
+        timer = setTimeout(
+          () => waiter.reject(new TimeoutError("commitStatus", timeoutMs, txId)),
+          timeoutMs,
+        );
+      }
+
+      let txWaiters = this.waiters.get(txId);
+      if (!txWaiters) {
+        txWaiters = new Set();
+        this.waiters.set(txId, txWaiters);
+      }
+      txWaiters.add(waiter);
+
+      if (this.state !== "listening" || this.submittedEarly.has(txId)) {
+        this.fallBack(txId, waiter);
+      }
+    });
+  }
+
+  public markSubmitted(txId: string): void {
+    if (this.state !== "listening" && this.state !== "stopped") {
+      this.submittedEarly.add(txId);
+    }
+  }
+
+  public close(): void {
+    this.stop();
+  }
+
+  private start(): void {
+    if (this.state !== "idle") return;
+    this.state = "connecting";
+    this.unsubscribe = this.subscribe({
+      onData: (block) => this.onBlock(block),
+      onError: (error) => {
+        console.error(
+          `[CommitTracker] Block stream for ${this.channelName} failed, falling back to commitStatus:`,
+          error,
+        );
+        this.stop();
+      },
+      onClose: () => this.stop(),
+    });
+  }
+
+  private stop(): void {
+    if (this.state === "stopped") return;
+    this.state = "stopped";
+    const unsubscribe = this.unsubscribe;
+    this.unsubscribe = undefined;
+    unsubscribe?.();
+    this.submittedEarly.clear();
+    for (const [txId, txWaiters] of this.waiters) {
+      for (const waiter of txWaiters) {
+        this.fallBack(txId, waiter);
+      }
+    }
+  }
+
+  private onBlock(block: FilteredBlock): void {
+    if (this.state === "connecting") {
+      this.state = "listening";
+    }
+    for (const transaction of block.filteredTransactions) {
+      // A txId used twice is only valid the first time; the later one is a DUPLICATE_TXID we don't care about.
+      if (this.recent.has(transaction.txid)) continue;
+      this.submittedEarly.delete(transaction.txid);
+      const status: TransactionStatus = {
+        txId: transaction.txid,
+        code: transaction.txValidationCode,
+        blockNumber: block.number,
+      };
+      this.remember(status);
+      for (const waiter of this.waiters.get(transaction.txid) ?? []) {
+        waiter.resolve(status);
+      }
+    }
+  }
+
+  private fallBack(txId: string, waiter: Waiter): void {
+    if (waiter.fallback.signal.aborted) return;
+    this.fetchStatus(txId, { signal: waiter.fallback.signal }).then(
+      waiter.resolve,
+      (error) => {
+        if (!waiter.fallback.signal.aborted) waiter.reject(error);
+      },
+    );
+  }
+
+  private remember(status: TransactionStatus): void {
+    this.recent.set(status.txId, status);
+    if (this.recent.size > RECENT_TRANSACTIONS_LIMIT) {
+      // Maps iterate in insertion order, so the first key is the oldest.
+      this.recent.delete(this.recent.keys().next().value!);
+    }
+  }
+
+  private removeWaiter(txId: string, waiter: Waiter): void {
+    const txWaiters = this.waiters.get(txId);
+    txWaiters?.delete(waiter);
+    if (txWaiters?.size === 0) {
+      this.waiters.delete(txId);
+    }
+  }
+}
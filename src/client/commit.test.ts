@@ -0,0 +1,57 @@
+import { describe, it, expect, vi } from "vitest";
+import { Commit } from "./commit";
+import { TxValidationCode } from "../generated_protos/peer/transaction_pb";
+import type { TransactionStatus } from "../models";
+
+const validStatus: TransactionStatus = {
+  txId: "a_mock_tx_id",
+  code: TxValidationCode.VALID,
+  blockNumber: 42n,
+};
+
+describe("Commit", () => {
+  it("should fetch the status once and expose the block number", async () => {
+    const fetchStatus = vi.fn().mockResolvedValue(validStatus);
+    const commit = new Commit("a_mock_tx_id", fetchStatus, { timeoutMs: 500 });
+
+    expect(commit.blockNumber).toBeUndefined();
+
+    const [first, second] = await Promise.all([commit.getStatus(), commit.getStatus()]);
+
+    expect(first.success).toBe(true);
+    expect(second.data).toEqual(validStatus);
+    expect(commit.blockNumber).toBe(42n);
+    expect(await commit.isSuccessful()).toBe(true);
+    expect(fetchStatus).toHaveBeenCalledTimes(1);
+    expect(fetchStatus).toHaveBeenCalledWith({ timeoutMs: 500 });
+  });
+
+  it("should report an invalid transaction as unsuccessful", async () => {
+    const fetchStatus = vi.fn().mockResolvedValue({
+      ...validStatus,
+      code: TxValidationCode.MVCC_READ_CONFLICT,
+    });
+    const commit = new Commit("a_mock_tx_id", fetchStatus);
+
+    const status = await commit.getStatus();
+
+    expect(status.success).toBe(true);
+    expect(await commit.isSuccessful()).toBe(false);
+  });
+
+  it("should not cache a failed status lookup", async () => {
+    const fetchStatus = vi
+      .fn()
+      .mockRejectedValueOnce(new Error("deadline exceeded"))
+      .mockResolvedValueOnce(validStatus);
+    const commit = new Commit("a_mock_tx_id", fetchStatus);
+
+    const failed = await commit.getStatus();
+    expect(failed.success).toBe(false);
+    expect(failed.error?.message).toBe("deadline exceeded");
+
+    const retried = await commit.getStatus();
+    expect(retried.success).toBe(true);
+    expect(fetchStatus).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,62 @@
+import type { CommitOptions, Result, TransactionStatus } from "../models";
+import { TxValidationCode } from "../generated_protos/peer/transaction_pb";
+import { tryCatch } from "../utils/try-catch";
+import { getGroundedError } from "../utils/error-parser";
+
+/**
+ * Q: What is a `Commit` and why would I want one?
+ * A: It's a handle to a transaction that has been submitted to the orderer but may not be in a block yet.
+ *    `submitAsync` gives you one right away, so your UI can say "submitted" immediately and come back later
+ *    for the "committed in block N" part. The status is fetched once and remembered, so calling
+ *    `getStatus()` from several places doesn't hammer the Gateway.
+ */
+export class Commit {
+  private statusPromise: Promise<Result<TransactionStatus>> | null = null;
+  private status: TransactionStatus | null = null;
+
+  constructor(
+    public readonly txId: string,
+    private readonly fetchStatus: (
+      options: CommitOptions,
+    ) => Promise<TransactionStatus>,
+    private readonly options: CommitOptions = {},
+  ) {}
+
+  /**
+   * The block the transaction landed in. `undefined` until `getStatus()` has resolved successfully.
+   */
+  public get blockNumber(): bigint | undefined {
+    return this.status?.blockNumber;
+  }
+
+  /**
+   * Waits for the transaction to be committed and returns its validation code and block number.
+   * An invalid transaction is still a successful *status*; check `code` (or use `isSuccessful()`).
+   */
+  public getStatus(): Promise<Result<TransactionStatus>> {
+    if (!this.statusPromise) {
+      this.statusPromise = tryCatch(async () => {
+        const status = await this.fetchStatus(this.options);
+        this.status = status;
+        return status;
+      }, getGroundedError);
+
+      // A failed lookup (timeout, network...) shouldn't be cached forever; let the next call retry.
+      this.statusPromise.then((result) => {
+        if (!result.success) {
+          this.statusPromise = null;
+        }
+      });
+    }
+    return this.statusPromise;
+  }
+
+  /**
+   * `true` only if the transaction was committed with a `VALID` validation code.
+   * If the status couldn't be fetched, this resolves to `false`; use `getStatus()` to see why.
+   */
+  public async isSuccessful(): Promise<boolean> {
+    const result = await this.getStatus();
+    return result.success && result.data.code === TxValidationCode.VALID;
+  }
+}
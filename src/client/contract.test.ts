@@ -0,0 +1,71 @@
+import { describe, it, expect, vi } from "vitest";
+import { Network } from "./contract";
+import type { FabricClient } from "./fabric-client";
+import type { AppIdentity } from "../models";
+
+interface Asset {
+  ID: string;
+  Size: number;
+}
+
+interface AssetContract {
+  ReadAsset(id: string): Asset;
+  CreateAsset(id: string, size: number, tags: string[]): void;
+}
+
+const identity: AppIdentity = {
+  cert: "a_mock_cert",
+  sign: async () => new Uint8Array(),
+};
+
+describe("Contract", () => {
+  it("should fill in the bound parameters and return the evaluated result", async () => {
+    const asset: Asset = { ID: "asset1", Size: 5 };
+    const client = {
+      evaluateTransaction: vi.fn().mockResolvedValue({
+        success: true,
+        data: { txId: "a_mock_tx_id", status: 200, message: "", parsedData: asset },
+        error: null,
+      }),
+    };
+    const contract = new Network(
+      client as unknown as FabricClient,
+      "mychannel",
+      identity,
+      "Org1MSP",
+    ).getContract<AssetContract>("basic");
+
+    const result = await contract.evaluate("ReadAsset", "asset1");
+
+    expect(result.data?.Size).toBe(5);
+    expect(client.evaluateTransaction).toHaveBeenCalledWith(
+      {
+        mspId: "Org1MSP",
+        channelName: "mychannel",
+        chaincodeName: "basic",
+        functionName: "ReadAsset",
+        args: ["asset1"],
+      },
+      identity,
+      {},
+    );
+  });
+
+  it("should leave argument encoding to the client and pass failures through", async () => {
+    const error = new Error("endorsement failed");
+    const client = {
+      submitAndCommit: vi.fn().mockResolvedValue({ success: false, data: null, error }),
+    };
+    const contract = new Network(
+      client as unknown as FabricClient,
+      "mychannel",
+      identity,
+      "Org1MSP",
+    ).getContract<AssetContract>("basic");
+
+    const result = await contract.submit("CreateAsset", "asset2", 10, ["red"]);
+
+    expect(result.error).toBe(error);
+    expect(client.submitAndCommit.mock.calls[0][0].args).toEqual(["asset2", 10, ["red"]]);
+  });
+});
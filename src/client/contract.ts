@@ -0,0 +1,135 @@
+import type {
+  AppIdentity,
+  ContractArg,
+  ContractFunctions,
+  ContractOptions,
+  Result,
+} from "../models";
+import type { FabricClient } from "./fabric-client";
+import { Lifecycle } from "./lifecycle";
+
+type UntypedContract = Record<string, (...args: ContractArg[]) => any>;
+
+type FunctionName<T> = keyof T & string;
+type FunctionArgs<T, K extends keyof T> = T[K] extends (
+  ...args: infer A
+) => unknown
+  ? A
+  : never;
+type FunctionResult<T, K extends keyof T> = T[K] extends (
+  ...args: any[]
+) => infer R
+  ? Awaited<R>
+  : never;
+
+/**
+ * Q: Why a `Network`?
+ * A: Because the channel, the MSP ID and the identity are the same for almost every call you make.
+ *    A `Network` remembers them for you, so all that's left to say is which chaincode you want.
+ */
+export class Network {
+  constructor(
+    private readonly client: FabricClient,
+    public readonly channelName: string,
+    private readonly identity: AppIdentity,
+    public readonly mspId: string,
+  ) {}
+
+  /**
+   * Gives you a `Contract` for one chaincode on this channel.
+   * Pass an interface describing the chaincode's functions as `T` and the arguments and results are typed for you.
+   * A `codec` here applies to every call on the contract, instead of the client's one.
+   */
+  public getContract<T extends ContractFunctions<T> = UntypedContract>(
+    chaincodeName: string,
+    options: ContractOptions = {},
+  ): Contract<T> {
+    return new Contract<T>(
+      this.client,
+      this.channelName,
+      chaincodeName,
+      this.identity,
+      this.mspId,
+      options,
+    );
+  }
+
+  /** Gives you the chaincode lifecycle (`_lifecycle`) admin calls for this channel. Needs an org admin identity. */
+  public getLifecycle(): Lifecycle {
+    return new Lifecycle(
+      this.client,
+      this.channelName,
+      this.identity,
+      this.mspId,
+    );
+  }
+}
+
+/**
+ * Q: What does a `Contract` buy me over `evaluateTransaction` and `submitAndCommit`?
+ * A: Five fewer parameters on every call. It's bound to a channel, a chaincode and an identity,
+ *    so you only say which function to run and with what. With a `T` describing the chaincode,
+ *    TypeScript checks the function name, its arguments and the type of what comes back.
+ *
+ * ```ts
+ * const assets = client.getNetwork("mychannel", identity, "Org1MSP").getContract<AssetContract>("basic");
+ * const asset = await assets.evaluate("ReadAsset", "asset1"); // Result<Asset>
+ * ```
+ */
+export class Contract<T extends ContractFunctions<T> = UntypedContract> {
+  constructor(
+    private readonly client: FabricClient,
+    public readonly channelName: string,
+    public readonly chaincodeName: string,
+    private readonly identity: AppIdentity,
+    public readonly mspId: string,
+    private readonly options: ContractOptions = {},
+  ) {}
+
+  /**
+   * Runs a read-only function and gives you back what it returned. Nothing is sent to the orderer.
+   */
+  public async evaluate<K extends FunctionName<T>>(
+    functionName: K,
+    ...args: FunctionArgs<T, K>
+  ): Promise<Result<FunctionResult<T, K>>> {
+    const evaluated = await this.client.evaluateTransaction(
+      this.toProposalParams(functionName, args),
+      this.identity,
+      this.options,
+    );
+    if (!evaluated.success) {
+      return evaluated;
+    }
+    return { success: true, data: evaluated.data.parsedData, error: null };
+  }
+
+  /**
+   * Endorses, submits and waits for the commit, then gives you back what the function returned.
+   * A transaction that doesn't commit as `VALID` comes back as a failed `Result` with a `CommitError`.
+   */
+  public async submit<K extends FunctionName<T>>(
+    functionName: K,
+    ...args: FunctionArgs<T, K>
+  ): Promise<Result<FunctionResult<T, K>>> {
+    const committed = await this.client.submitAndCommit(
+      this.toProposalParams(functionName, args),
+      this.identity,
+      this.options,
+    );
+    if (!committed.success) {
+      return committed;
+    }
+    return { success: true, data: committed.data.result, error: null };
+  }
+
+  private toProposalParams(functionName: string, args: readonly unknown[]) {
+    return {
+      mspId: this.mspId,
+      channelName: this.channelName,
+      chaincodeName: this.chaincodeName,
+      functionName,
+      args: args as ContractArg[],
+    };
+  }
+}
@@ -0,0 +1,422 @@
+import { describe, it, expect, vi } from "vitest";
+import { create, fromBinary, toBinary } from "@bufbuild/protobuf";
+import { createRouterTransport } from "@connectrpc/connect";
+import { FabricClient } from "./fabric-client";
+import { Gateway, type EndorseRequest, type EvaluateRequest } from "../generated_protos/gateway/gateway_pb";
+import {
+  ChaincodeActionPayloadSchema,
+  TransactionSchema,
+  TxValidationCode,
+} from "../generated_protos/peer/transaction_pb";
+import { PayloadSchema } from "../generated_protos/common/common_pb";
+import { ProposalResponsePayloadSchema } from "../generated_protos/peer/proposal_response_pb";
+import { BlockchainInfoSchema } from "../generated_protos/common/ledger_pb";
+import { ChaincodeInvocationSpecSchema } from "../generated_protos/peer/chaincode_pb";
+import {
+  ChaincodeActionSchema,
+  ChaincodeProposalPayloadSchema,
+  ProposalSchema,
+} from "../generated_protos/peer/proposal_pb";
+import { createSerializedIdentityBytes } from "../protobuf/builder";
+import { CommitError, ProgressListenerError } from "../errors";
+import type { AppIdentity, CommitTracker, ProposalParams, TransactionProgress } from "../models";
+
+const rawSignature = new Uint8Array(64).fill(1);
+
+/** What the Gateway's endorse hands back: a `common.Payload` whose chaincode returned `result`. */
+function preparedPayload(result: string, endorsers: string[] = ["Org1MSP"]): Uint8Array {
+  const chaincodeAction = create(ChaincodeActionSchema, {
+    response: { status: 200, payload: new TextEncoder().encode(result) },
+  });
+  const actionPayload = create(ChaincodeActionPayloadSchema, {
+    action: {
+      proposalResponsePayload: toBinary(
+        ProposalResponsePayloadSchema,
+        create(ProposalResponsePayloadSchema, {
+          extension: toBinary(ChaincodeActionSchema, chaincodeAction),
+        }),
+      ),
+      endorsements: endorsers.map((mspId) => ({
+        endorser: createSerializedIdentityBytes(mspId, "peer"),
+      })),
+    },
+  });
+  const transaction = create(TransactionSchema, {
+    actions: [{ payload: toBinary(ChaincodeActionPayloadSchema, actionPayload) }],
+  });
+  return toBinary(
+    PayloadSchema,
+    create(PayloadSchema, { header: {}, data: toBinary(TransactionSchema, transaction) }),
+  );
+}
+
+describe("FabricClient.submitBatch", () => {
+  it("should sign every proposal at once and count successes and conflicts", async () => {
+    const commitCodes = [
+      TxValidationCode.VALID,
+      TxValidationCode.MVCC_READ_CONFLICT,
+      TxValidationCode.VALID,
+    ];
+    const transport = createRouterTransport(({ service }) => {
+      service(Gateway, {
+        endorse: (request) => ({ preparedTransaction: { payload: preparedPayload(`"${request.transactionId}"`) } }),
+        submit: () => ({}),
+        commitStatus: () => ({ result: commitCodes.shift(), blockNumber: 7n }),
+      });
+    });
+    const client = new FabricClient({
+      gatewayUrl: "https://gateway.example.com",
+      createTransport: () => transport,
+    });
+    const identity: AppIdentity = {
+      cert: "-----BEGIN CERTIFICATE-----\nclient\n-----END CERTIFICATE-----\n",
+      sign: vi.fn(async () => rawSignature),
+      signBatch: vi.fn(async (data: Uint8Array[]) => data.map(() => rawSignature)),
+    };
+    const proposals: ProposalParams[] = ["asset1", "asset2", "asset3"].map((id) => ({
+      mspId: "Org1MSP",
+      channelName: "mychannel",
+      chaincodeName: "basic",
+      functionName: "CreateAsset",
+      args: [id],
+    }));
+
+    const { results, summary } = await client.submitBatch(proposals, identity, { concurrency: 1 });
+
+    expect(identity.signBatch).toHaveBeenCalledOnce();
+    expect(summary).toEqual({ succeeded: 2, failed: 0, conflicted: 1 });
+    expect(results.map((result) => result.success)).toEqual([true, false, true]);
+    expect(results[1].error).toBeInstanceOf(CommitError);
+    expect(results[0].data?.blockNumber).toBe(7n);
+    expect(results[2].data?.result).toBe(results[2].data?.txId);
+  });
+});
+
+describe("FabricClient.submitBatch retries", () => {
+  it("should back off longer before every retry and keep every attempt", async () => {
+    const transport = createRouterTransport(({ service }) => {
+      service(Gateway, {
+        endorse: () => ({ preparedTransaction: { payload: new Uint8Array() } }),
+        submit: () => ({}),
+        commitStatus: () => ({ result: TxValidationCode.MVCC_READ_CONFLICT, blockNumber: 5n }),
+      });
+    });
+    const client = new FabricClient({
+      gatewayUrl: "https://gateway.example.com",
+      createTransport: () => transport,
+    });
+    const identity: AppIdentity = {
+      cert: "-----BEGIN CERTIFICATE-----\nclient\n-----END CERTIFICATE-----\n",
+      sign: async () => rawSignature,
+    };
+    const setTimeoutSpy = vi.spyOn(globalThis, "setTimeout");
+
+    const { results } = await client.submitBatch(
+      [{ mspId: "Org1MSP", channelName: "mychannel", chaincodeName: "basic", functionName: "CreateAsset" }],
+      identity,
+      { retry: { maxAttempts: 3, initialDelayMs: 1, multiplier: 10 } },
+    );
+    const delays = setTimeoutSpy.mock.calls.map(([, ms]) => ms).filter((ms) => ms === 1 || ms === 10);
+    setTimeoutSpy.mockRestore();
+
+    expect(delays).toEqual([1, 10]);
+    expect((results[0].error as CommitError).attempts).toHaveLength(3);
+  });
+
+  it("should still run the batch when the concurrency isn't a number", async () => {
+    const transport = createRouterTransport(({ service }) => {
+      service(Gateway, {
+        endorse: () => ({ preparedTransaction: { payload: new Uint8Array() } }),
+        submit: () => ({}),
+        commitStatus: () => ({ result: TxValidationCode.VALID, blockNumber: 5n }),
+      });
+    });
+    const client = new FabricClient({
+      gatewayUrl: "https://gateway.example.com",
+      createTransport: () => transport,
+    });
+    const identity: AppIdentity = {
+      cert: "-----BEGIN CERTIFICATE-----\nclient\n-----END CERTIFICATE-----\n",
+      sign: async () => rawSignature,
+    };
+
+    const { summary } = await client.submitBatch(
+      [{ mspId: "Org1MSP", channelName: "mychannel", chaincodeName: "basic", functionName: "CreateAsset" }],
+      identity,
+      { concurrency: Number.NaN },
+    );
+
+    expect(summary).toEqual({ succeeded: 1, failed: 0, conflicted: 0 });
+  });
+});
+
+describe("FabricClient onProgress", () => {
+  it("should report every stage of a committed transaction in order", async () => {
+    const transport = createRouterTransport(({ service }) => {
+      service(Gateway, {
+        endorse: () => ({
+          preparedTransaction: { payload: preparedPayload('{"ok":true}', ["Org1MSP", "Org2MSP", "Org1MSP"]) },
+        }),
+        submit: () => ({}),
+        commitStatus: () => ({ result: TxValidationCode.VALID, blockNumber: 3n }),
+      });
+    });
+    const client = new FabricClient({
+      gatewayUrl: "https://gateway.example.com",
+      createTransport: () => transport,
+    });
+    const identity: AppIdentity = {
+      cert: "-----BEGIN CERTIFICATE-----\nclient\n-----END CERTIFICATE-----\n",
+      sign: async () => rawSignature,
+    };
+    const progress: TransactionProgress[] = [];
+
+    const committed = await client.submitAndCommit(
+      { mspId: "Org1MSP", channelName: "mychannel", chaincodeName: "basic", functionName: "CreateAsset" },
+      identity,
+      { onProgress: (update) => progress.push(update) },
+    );
+
+    expect(committed.success).toBe(true);
+    expect(progress.map((update) => update.stage)).toEqual(["built", "signed", "endorsed", "submitted", "committed"]);
+    expect(new Set(progress.map((update) => update.txId))).toEqual(new Set([committed.data?.txId]));
+    expect(progress.find((update) => update.stage === "endorsed")).toMatchObject({
+      endorsingOrganizations: ["Org1MSP", "Org2MSP"],
+    });
+    expect(progress.at(-1)).toMatchObject({ blockNumber: 3n, timestamp: expect.any(Date) });
+  });
+
+  it("should put an error thrown by the listener in the Result, with the update it threw on", async () => {
+    const transport = createRouterTransport(({ service }) => {
+      service(Gateway, {
+        endorse: () => ({ preparedTransaction: { payload: new Uint8Array() } }),
+        submit: () => ({}),
+      });
+    });
+    const client = new FabricClient({
+      gatewayUrl: "https://gateway.example.com",
+      createTransport: () => transport,
+    });
+    const identity: AppIdentity = {
+      cert: "-----BEGIN CERTIFICATE-----\nclient\n-----END CERTIFICATE-----\n",
+      sign: async () => rawSignature,
+    };
+    const listenerError = new Error("progress bar is gone");
+
+    const submitted = await client.submitAsync(
+      { mspId: "Org1MSP", channelName: "mychannel", chaincodeName: "basic", functionName: "CreateAsset" },
+      identity,
+      {
+        onProgress: (update) => {
+          if (update.stage === "submitted") throw listenerError;
+        },
+      },
+    );
+
+    expect(submitted.error).toBeInstanceOf(ProgressListenerError);
+    expect((submitted.error as ProgressListenerError).progress.stage).toBe("submitted");
+    expect(submitted.error?.cause).toBe(listenerError);
+  });
+
+  it("should report failed when submitAsync gives up before endorsing", async () => {
+    const client = new FabricClient({ gatewayUrl: "https://gateway.example.com" });
+    const identity: AppIdentity = {
+      cert: "-----BEGIN CERTIFICATE-----\nclient\n-----END CERTIFICATE-----\n",
+      sign: async () => rawSignature,
+    };
+    const commitTracker: CommitTracker = { channelName: "otherchannel", waitForCommit: vi.fn(), close: vi.fn() };
+    const progress: TransactionProgress[] = [];
+
+    const submitted = await client.submitAsync(
+      { mspId: "Org1MSP", channelName: "mychannel", chaincodeName: "basic", functionName: "CreateAsset" },
+      identity,
+      { commitTracker, onProgress: (update) => progress.push(update) },
+    );
+
+    expect(submitted.success).toBe(false);
+    expect(progress).toEqual([{ stage: "failed", txId: undefined, error: submitted.error, timestamp: expect.any(Date) }]);
+  });
+});
+
+describe("FabricClient.getChainInfo", () => {
+  it("should ask qscc about the channel and decode its BlockchainInfo", async () => {
+    const invocations: string[][] = [];
+    const transport = createRouterTransport(({ service }) => {
+      service(Gateway, {
+        evaluate: (request) => {
+          const proposal = fromBinary(ProposalSchema, request.proposedTransaction!.proposalBytes);
+          const { input } = fromBinary(ChaincodeProposalPayloadSchema, proposal.payload);
+          const spec = fromBinary(ChaincodeInvocationSpecSchema, input);
+          invocations.push([
+            spec.chaincodeSpec!.chaincodeId!.name,
+            ...spec.chaincodeSpec!.input!.args.map((arg) => new TextDecoder().decode(arg)),
+          ]);
+          return {
+            result: {
+              status: 200,
+              payload: toBinary(
+                BlockchainInfoSchema,
+                create(BlockchainInfoSchema, {
+                  height: 12n,
+                  currentBlockHash: new Uint8Array([0xbe, 0xef]),
+                  previousBlockHash: new Uint8Array([0xca, 0xfe]),
+                }),
+              ),
+            },
+          };
+        },
+      });
+    });
+    const client = new FabricClient({
+      gatewayUrl: "https://gateway.example.com",
+      createTransport: () => transport,
+    });
+    const identity: AppIdentity = {
+      cert: "-----BEGIN CERTIFICATE-----\nclient\n-----END CERTIFICATE-----\n",
+      sign: async () => rawSignature,
+    };
+
+    const info = await client.getChainInfo({ mspId: "Org1MSP", channelName: "mychannel" }, identity);
+
+    expect(invocations).toEqual([["qscc", "GetChainInfo", "mychannel"]]);
+    expect(info.data).toEqual({ height: "12", currentBlockHash: "beef", previousBlockHash: "cafe" });
+  });
+});
+
+describe("FabricClient endorsingOrganizations", () => {
+  const identity: AppIdentity = {
+    cert: "-----BEGIN CERTIFICATE-----\nclient\n-----END CERTIFICATE-----\n",
+    sign: async () => rawSignature,
+  };
+  const params: ProposalParams = {
+    mspId: "Org1MSP",
+    channelName: "mychannel",
+    chaincodeName: "basic",
+    functionName: "ReadAsset",
+  };
+
+  function setUp() {
+    const evaluateRequests: EvaluateRequest[] = [];
+    const endorseRequests: EndorseRequest[] = [];
+    const transport = createRouterTransport(({ service }) => {
+      service(Gateway, {
+        evaluate: (request) => {
+          evaluateRequests.push(request);
+          return { result: { status: 200, payload: new Uint8Array() } };
+        },
+        endorse: (request) => {
+          endorseRequests.push(request);
+          return { preparedTransaction: { payload: new Uint8Array() } };
+        },
+      });
+    });
+    const client = new FabricClient({
+      gatewayUrl: "https://gateway.example.com",
+      createTransport: () => transport,
+    });
+    return { client, evaluateRequests, endorseRequests };
+  }
+
+  it("should send them as the target orgs on evaluate and the endorsing orgs on endorse", async () => {
+    const { client, evaluateRequests, endorseRequests } = setUp();
+    const pinned = { ...params, endorsingOrganizations: ["Org1MSP", "Org2MSP"] };
+
+    await client.evaluateTransaction(pinned, identity);
+    await client.prepareTransaction(pinned, identity);
+
+    expect(evaluateRequests[0].targetOrganizations).toEqual(["Org1MSP", "Org2MSP"]);
+    expect(endorseRequests[0].endorsingOrganizations).toEqual(["Org1MSP", "Org2MSP"]);
+  });
+
+  it("should leave them empty when unset so the Gateway picks the orgs", async () => {
+    const { client, evaluateRequests, endorseRequests } = setUp();
+
+    await client.evaluateTransaction(params, identity);
+    await client.prepareTransaction(params, identity);
+
+    expect(evaluateRequests[0].targetOrganizations).toEqual([]);
+    expect(endorseRequests[0].endorsingOrganizations).toEqual([]);
+  });
+});
+
+describe("FabricClient.submitAndCommit", () => {
+  it("should list every attempt on the CommitError once the retries run out", async () => {
+    const transport = createRouterTransport(({ service }) => {
+      service(Gateway, {
+        endorse: () => ({ preparedTransaction: { payload: new Uint8Array() } }),
+        submit: () => ({}),
+        commitStatus: () => ({ result: TxValidationCode.MVCC_READ_CONFLICT, blockNumber: 5n }),
+      });
+    });
+    const client = new FabricClient({
+      gatewayUrl: "https://gateway.example.com",
+      createTransport: () => transport,
+    });
+    const identity: AppIdentity = {
+      cert: "-----BEGIN CERTIFICATE-----\nclient\n-----END CERTIFICATE-----\n",
+      sign: async () => rawSignature,
+    };
+
+    const committed = await client.submitAndCommit(
+      { mspId: "Org1MSP", channelName: "mychannel", chaincodeName: "basic", functionName: "CreateAsset" },
+      identity,
+      { retry: { maxAttempts: 3, initialDelayMs: 0 } },
+    );
+
+    expect(committed.error).toBeInstanceOf(CommitError);
+    const { attempts, txId } = committed.error as CommitError;
+    expect(attempts.map((attempt) => attempt.code)).toEqual([
+      TxValidationCode.MVCC_READ_CONFLICT,
+      TxValidationCode.MVCC_READ_CONFLICT,
+      TxValidationCode.MVCC_READ_CONFLICT,
+    ]);
+    expect(new Set(attempts.map((attempt) => attempt.txId)).size).toBe(3);
+    expect(attempts.at(-1)?.txId).toBe(txId);
+  });
+});
+
+describe("FabricClient submitted results", () => {
+  const identity: AppIdentity = {
+    cert: "-----BEGIN CERTIFICATE-----\nclient\n-----END CERTIFICATE-----\n",
+    sign: async () => rawSignature,
+  };
+  const params: ProposalParams = {
+    mspId: "Org1MSP",
+    channelName: "mychannel",
+    chaincodeName: "basic",
+    functionName: "CreateAsset",
+  };
+
+  function clientEndorsing(payload: Uint8Array) {
+    const transport = createRouterTransport(({ service }) => {
+      service(Gateway, {
+        endorse: () => ({ preparedTransaction: { payload } }),
+        submit: () => ({}),
+        commitStatus: () => ({ result: TxValidationCode.VALID, blockNumber: 3n }),
+      });
+    });
+    return new FabricClient({
+      gatewayUrl: "https://gateway.example.com",
+      createTransport: () => transport,
+    });
+  }
+
+  it("should decode what the chaincode returned from the prepared payload", async () => {
+    const client = clientEndorsing(preparedPayload('{"ok":true}'));
+
+    const committed = await client.submitAndCommit(params, identity);
+    const submitted = await client.submitAsync(params, identity);
+
+    expect(committed.data?.result).toEqual({ ok: true });
+    expect(submitted.data?.result).toEqual({ ok: true });
+  });
+
+  it("should still submit an endorsed transaction whose result it can't decode", async () => {
+    const client = clientEndorsing(new Uint8Array([0xff]));
+
+    const committed = await client.submitAndCommit(params, identity);
+
+    expect(committed.success).toBe(true);
+    expect(committed.data?.result).toBeUndefined();
+  });
+});
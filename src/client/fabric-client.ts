@@ -1,149 +1,662 @@
 import {
-  CommitStatusRequestSchema,
   EndorseRequestSchema,
   EvaluateRequestSchema,
   Gateway,
   SignedCommitStatusRequestSchema,
   SubmitRequestSchema,
 } from "../generated_protos/gateway/gateway_pb";
-import { createClient, type Client } from "@connectrpc/connect";
-import { createGrpcWebTransport as createBrowserTransport } from "@connectrpc/connect-web";
-import { createGrpcWebTransport as createNodeTransport } from "@connectrpc/connect-node";
+import {
+  Code,
+  ConnectError,
+  createClient,
+  type CallOptions as ConnectCallOptions,
+  type Client,
+} from "@connectrpc/connect";
 import {
   AppIdentity,
+  BatchSubmission,
+  BlockByHashParams,
+  BlockByNumberParams,
+  BlockEventFilter,
   BlockEventParams,
+  ChaincodeEventFilter,
   ChaincodeEventParams,
+  CommitOptions,
+  CommitTracker,
+  DecodedBlock,
+  DecodedBlockAndPrivateData,
+  DecodedBlockTransaction,
+  DecodedChainInfo,
+  DecodedChaincodeEvent,
+  CommitStatusParams,
+  CommittedTransaction,
   EvaluatedTransaction,
   FabricClientConfig,
+  FabricInterceptor,
+  InspectedTransaction,
+  LedgerQueryParams,
+  PayloadCodec,
   PreparedTransaction,
   ProposalParams,
+  RequestOptions,
   Result,
+  RetryPolicy,
+  SharedBlockEventParams,
+  SharedChaincodeEventParams,
   SubmitParams,
   SubmittedTransaction,
+  SubmitAndCommitOptions,
+  SubmitBatchOptions,
+  SubmittedTransactionWithCommit,
+  TransactionAttempt,
+  TransactionByIdParams,
+  TransactionPhase,
+  TransactionProgress,
+  TransactionStatus,
+  UnsignedCommitStatusRequest,
+  UnsignedProposal,
 } from "../models";
 import {
-  decodeChaincodePayload,
+  extractChaincodeResult,
+  extractEndorsingOrganizations,
   parseEvaluateResponse,
 } from "../protobuf/parser";
-import { create, toBinary } from "@bufbuild/protobuf";
+import { decodePreparedTransaction } from "../protobuf/transaction-decoder";
+import {
+  decodeBlock,
+  decodeChainInfo,
+  decodeProcessedTransaction,
+} from "../protobuf/block-decoder";
+import { autoCodec, bytesCodec } from "../codecs/payload-codecs";
+import { create } from "@bufbuild/protobuf";
 import { SignedProposalSchema } from "../generated_protos/peer/proposal_pb";
-import { signFabricSignature } from "../crypto/signing";
 import {
+  normalizeFabricSignature,
+  signFabricSignature,
+  signFabricSignatures,
+} from "../crypto/signing";
+import {
+  buildCommitStatusRequest,
   buildProposalPayload,
+  computeTlsCertHash,
   generateTransactionId,
 } from "../protobuf/builder";
-import { tryCatch } from "../utils/try-catch";
+import { tryCatch, tryCatchSync } from "../utils/try-catch";
 import { EnvelopeSchema } from "../generated_protos/common/common_pb";
 import { getGroundedError } from "../utils/error-parser";
 import { EventService } from "../events/event-service";
 import { ChaincodeEventsResponse, FilteredBlock } from "../models";
 
 import { createSerializedIdentityBytes } from "../protobuf";
+import { sha256 } from "@noble/hashes/sha2";
+import { hexToBytes } from "@noble/hashes/utils";
 import { TxValidationCode } from "../generated_protos/peer/transaction_pb";
 import { EventCallbacks } from "../models/events.types";
+import { Commit } from "./commit";
+import { EventCommitTracker } from "./commit-tracker";
+import { Network } from "./contract";
+import { createFabricTransport } from "./transports";
+import { runWithInterceptors } from "./interceptors";
+import {
+  CommitError,
+  CommitStatusError,
+  EndorseError,
+  FabricError,
+  GatewayError,
+  GatewayErrorClass,
+  ProgressListenerError,
+  SubmitError,
+  TimeoutError,
+  toGatewayError,
+} from "../errors";
+import { getBackoffDelay, sleep } from "../utils/backoff";
+import { mapWithConcurrency } from "../utils/utils";
+
+const DEFAULT_RETRYABLE_CODES = [
+  TxValidationCode.MVCC_READ_CONFLICT,
+  TxValidationCode.PHANTOM_READ_CONFLICT,
+];
+
+const DEFAULT_BATCH_CONCURRENCY = 8;
+
+/** The query system chaincode: ledger height, blocks and transactions, straight from a peer's ledger. */
+const QSCC = "qscc";
+
+/** A `TransactionProgress` without its timestamp; `reportProgress` stamps it. */
+type ProgressUpdate<P = TransactionProgress> = P extends unknown
+  ? Omit<P, "timestamp">
+  : never;
+
+/**
+ * Hands `update` to `onProgress`. If that throws, a `ProgressListenerError` goes up the same way a failing
+ * interceptor's error does, so every caller has to be inside a `tryCatch` and it ends up in the `Result`.
+ */
+function reportProgress(options: RequestOptions, update: ProgressUpdate): void {
+  if (!options.onProgress) return;
+  const progress = { ...update, timestamp: new Date() } as TransactionProgress;
+  try {
+    options.onProgress(progress);
+  } catch (error) {
+    throw new ProgressListenerError(progress, error);
+  }
+}
+
+/** The error a `failed` progress update carries: what `tryCatch` would have put in the `Result`. */
+function toReportedError(error: unknown): Error {
+  return error instanceof FabricError
+    ? error
+    : new Error(getGroundedError(error));
+}
+
+/** Reports `error` as the transaction's `failed` step, then throws it on. */
+function reportFailure(
+  options: RequestOptions,
+  error: unknown,
+  txId?: string,
+): never {
+  reportProgress(options, {
+    stage: "failed",
+    txId,
+    error: toReportedError(error),
+  });
+  throw error;
+}
+
+function reportEndorsed(
+  options: RequestOptions,
+  { txId, transactionEnvelope }: PreparedTransaction,
+): void {
+  if (!options.onProgress) return;
+  reportProgress(options, {
+    stage: "endorsed",
+    txId,
+    endorsingOrganizations: extractEndorsingOrganizations(transactionEnvelope),
+  });
+}
+
+/**
+ * What the chaincode returned in an endorsed transaction, through `codec`. The transaction is worth
+ * submitting by then whatever this finds, so it never throws: bytes the codec rejects come back as
+ * `autoCodec` reads them, and a prepared transaction it can't take apart gives `undefined`.
+ */
+function decodeSimulatedResult(
+  preparedTransaction: Uint8Array,
+  codec: PayloadCodec,
+): unknown {
+  const extracted = tryCatchSync(() =>
+    extractChaincodeResult(preparedTransaction),
+  );
+  if (!extracted.success) return undefined;
+  const decoded = tryCatchSync(() => codec.decode(extracted.data));
+  return decoded.success ? decoded.data : autoCodec.decode(extracted.data);
+}
+
+function assertCommitTrackerChannel(
+  options: RequestOptions,
+  channelName: string,
+): void {
+  if (
+    options.commitTracker &&
+    options.commitTracker.channelName !== channelName
+  ) {
+    throw new Error(
+      `The commit tracker watches channel ${options.commitTracker.channelName}, not ${channelName}.`,
+    );
+  }
+}
 
 export class FabricClient {
   private readonly gatewayClient: Client<typeof Gateway>;
   private readonly eventService: EventService;
+  private readonly tlsCertHash?: Uint8Array;
+  private readonly gatewayUrl: string;
+  private readonly interceptors: FabricInterceptor[];
+  private readonly codec: PayloadCodec;
 
   /**
-   * This constructor checks where it's running (`typeof window === "undefined"`) and picks the right tool for the job.
+   * This constructor builds a single transport (see `createFabricTransport`, which checks where it's running
+   * and picks the right tool for the job) and shares it with the event service.
    */
   constructor(config: FabricClientConfig) {
-    const isNode = typeof window === "undefined";
-
-    const transport = isNode
-      ? createNodeTransport({
-          baseUrl: config.gatewayUrl,
-          httpVersion: "1.1",
-          nodeOptions: {
-            ca: config.tlsCaCert ? [config.tlsCaCert] : undefined,
-          },
-        })
-      : createBrowserTransport({
-          baseUrl: config.gatewayUrl,
-        });
+    const transport = createFabricTransport(config);
 
     this.gatewayClient = createClient(Gateway, transport);
-    this.eventService = new EventService(config);
+    this.eventService = new EventService(config, transport);
+    this.tlsCertHash = config.tlsClientCert
+      ? computeTlsCertHash(config.tlsClientCert)
+      : undefined;
+    this.gatewayUrl = config.gatewayUrl;
+    this.interceptors = config.interceptors ?? [];
+    this.codec = config.codec ?? autoCodec;
+  }
+
+  /**
+   * Q: Do I really have to pass the MSP ID, channel, chaincode and identity on every single call?
+   * A: Not anymore. Bind them once here, then `getContract(chaincodeName)` and call functions by name.
+   *    See `Contract` for the typed version.
+   */
+  public getNetwork(
+    channelName: string,
+    identity: AppIdentity,
+    mspId: string,
+  ): Network {
+    return new Network(this, channelName, identity, mspId);
   }
 
   /**
    * This is the method for when you just want to submit a transaction and be done with it.
    * It wraps the entire Fabric transaction flow (Endorse -> Submit -> Wait for Commit) into a single call.
    * You give it a proposal, and it gives you back the final result or an error.
-   * It's doing a lot of heavy lifting (see `prepareTransaction`, `submitSignedTransaction`, `_waitForCommit`) so you don't have to.
+   * It's doing a lot of heavy lifting (see `submitAsync` and `_waitForCommit`) so you don't have to.
+   *
+   * The `signal` cancels the whole thing (including retry waits), and `timeouts` caps each phase on its own.
+   * If a phase runs out of time you get a `TimeoutError` that tells you which one.
+   *
+   * Q: My transaction failed with MVCC_READ_CONFLICT. Now what?
+   * A: Someone else changed the keys you read between your endorsement and your commit. Running it again
+   *    usually works, so pass a `retry` policy and we'll re-endorse with a fresh txId for you, waiting a bit
+   *    longer each time. Every attempt is listed in `attempts`, on the result or, if they all fail, on the
+   *    `CommitError`.
+   *
+   * Q: Can I show the user where their transaction is while they wait?
+   * A: Pass `onProgress`. It's called as the transaction is built, signed, endorsed, accepted by the orderer
+   *    and committed (or when it fails), each time with a timestamp and what's known by then: the endorsing
+   *    organizations, the block number. A retry shows up as a `failed` followed by a new `built`.
    */
   public async submitAndCommit(
     params: ProposalParams,
     identity: AppIdentity,
-  ): Promise<Result<{ txId: string; result: any }>> {
+    options: SubmitAndCommitOptions = {},
+  ): Promise<Result<CommittedTransaction>> {
+    const { retry, ...requestOptions } = options;
+    return tryCatch(
+      () => this.commitWithRetries(params, identity, requestOptions, retry, []),
+      getGroundedError,
+    );
+  }
+
+  /**
+   * Q: What if I don't want to sit around waiting for the block?
+   * A: Use this one. It endorses and submits, then returns as soon as the orderer has accepted the transaction.
+   *    You get the txId, the simulated result and a `Commit` handle you can ask later
+   *    (`getStatus()`, `isSuccessful()`, `blockNumber`) how things turned out.
+   *    The `signal` and `timeouts.commitStatus` also apply to that later commit-status wait.
+   *    Pass a `commitTracker` (see `createCommitTracker`) to have that wait served from a block stream.
+   *    `onProgress` reports up to `submitted` right away, and `committed` (or `failed`) once you ask the handle.
+   */
+  public async submitAsync(
+    params: ProposalParams,
+    identity: AppIdentity,
+    options: RequestOptions = {},
+  ): Promise<Result<SubmittedTransactionWithCommit>> {
     return tryCatch(async () => {
+      try {
+        assertCommitTrackerChannel(options, params.channelName);
+      } catch (error) {
+        reportFailure(options, error);
+      }
+
       // --- 1. ENDORSEMENT ---
-      const preparedTx = await this.prepareTransaction(params, identity);
+      // `prepareTransaction` and `submitSignedTransaction` report their own failures.
+      const preparedTx = await this.prepareTransaction(
+        params,
+        identity,
+        options,
+      );
       if (!preparedTx.success) {
         throw preparedTx.error;
       }
       const { txId, transactionEnvelope } = preparedTx.data;
-      const simulatedResult = decodeChaincodePayload(transactionEnvelope);
+      const simulatedResult = decodeSimulatedResult(
+        transactionEnvelope,
+        options.codec ?? this.codec,
+      );
 
       // --- 2. SUBMISSION ---
-      await this.submitSignedTransaction(
+      const submittedTx = await this.submitSignedTransaction(
         {
           txId,
           channelName: params.channelName,
           preparedTransaction: transactionEnvelope,
         },
         identity,
+        options,
       );
+      if (!submittedTx.success) {
+        throw submittedTx.error;
+      }
 
-      // --- 3. WAIT FOR COMMIT ---
-      await this._waitForCommit(
-        params.channelName,
+      // --- 3. HAND BACK A COMMIT HANDLE ---
+      const commit = new Commit(
         txId,
-        identity,
-        params.mspId,
+        (commitOptions) =>
+          this.waitForCommitWithProgress(
+            params,
+            txId,
+            identity,
+            options,
+            commitOptions,
+          ),
+        { timeoutMs: options.timeouts?.commitStatus, signal: options.signal },
       );
 
-      // --- 4. SUCCESS ---
-      return { txId, result: simulatedResult };
+      return { txId, result: simulatedResult, commit };
     }, getGroundedError);
   }
 
   /**
-   * This function polls the Gateway's `commitStatus` endpoint to see if our transaction made it into a block.
-   * If the transaction doesn't get a `VALID` status, this is where we throw the error that tells the user something went wrong on the ledger.
+   * Q: My bulk import submits hundreds of transactions. One signed `commitStatus` call each?
+   * A: Not if you create one of these for the channel and pass it as `commitTracker` to `submitAsync` or
+   *    `submitAndCommit`. It watches the channel's filtered blocks (a shared stream, see `subscribeToBlockEvents`)
+   *    and picks the commits out of them, falling back to `commitStatus` only when it has to.
+   *    `close()` it when you're done.
    */
-  private async _waitForCommit(
-    channelId: string,
-    txId: string,
+  public createCommitTracker(
+    params: SharedBlockEventParams,
     identity: AppIdentity,
-    mspId: string,
-  ): Promise<void> {
-    const creator = createSerializedIdentityBytes(mspId, identity.cert);
-    const request = create(CommitStatusRequestSchema, {
-      channelId,
-      transactionId: txId,
-      identity: creator,
-    });
+  ): CommitTracker {
+    return new EventCommitTracker(
+      params.channelName,
+      (callbacks) =>
+        this.eventService.subscribeToBlockEvents(params, identity, callbacks),
+      (txId, options) =>
+        this._waitForCommit(
+          params.channelName,
+          txId,
+          identity,
+          params.mspId,
+          options,
+        ),
+    );
+  }
 
-    const requestBytes = toBinary(CommitStatusRequestSchema, request);
-    const signature = await signFabricSignature(requestBytes, identity);
+  /**
+   * Q: I have hundreds of transactions to push. Do I write my own loop around `submitAndCommit`?
+   * A: No, hand them all to this. Every proposal is built up front and signed in one go (one round trip to the
+   *    crypto worker if the identity supports `signBatch`), then endorse, submit and commit run for up to
+   *    `concurrency` of them at a time. You get one `Result` per proposal, in order, and a count of how many
+   *    succeeded, failed, and lost a read conflict. It never rejects; each failure stays in its own `Result`.
+   *    `retry` works as in `submitAndCommit`, and a `commitTracker` saves a `commitStatus` call per transaction.
+   */
+  public async submitBatch(
+    proposals: ProposalParams[],
+    identity: AppIdentity,
+    options: SubmitBatchOptions = {},
+  ): Promise<BatchSubmission> {
+    const {
+      concurrency = DEFAULT_BATCH_CONCURRENCY,
+      retry,
+      ...requestOptions
+    } = options;
 
-    const signedRequest = create(SignedCommitStatusRequestSchema, {
-      request: requestBytes,
-      signature,
-    });
+    // --- 1. BUILD EVERY PROPOSAL AND SIGN THEM ALL AT ONCE ---
+    const built = await Promise.all(
+      proposals.map((params) =>
+        tryCatch(async () => {
+          const proposal = await this.buildProposal(
+            params,
+            identity,
+            requestOptions,
+          );
+          reportProgress(requestOptions, {
+            stage: "built",
+            txId: proposal.txId,
+          });
+          return proposal;
+        }, getGroundedError),
+      ),
+    );
+    const toSign = built.flatMap((proposal) =>
+      proposal.success ? [proposal.data.proposalBytes] : [],
+    );
+    const signed = await tryCatch(
+      () => signFabricSignatures(toSign, identity),
+      getGroundedError,
+    );
+    // Each proposal with its signature, or why it has none: its own build error or the batch's signing error.
+    let signatureIndex = 0;
+    const ready = built.map(
+      (
+        proposal,
+      ): Result<{ proposal: UnsignedProposal; signature: Uint8Array }> => {
+        if (!proposal.success) {
+          return proposal;
+        }
+        if (!signed.success) {
+          return signed;
+        }
+        const signature = signed.data[signatureIndex++];
+        return tryCatchSync(() => {
+          reportProgress(requestOptions, {
+            stage: "signed",
+            txId: proposal.data.txId,
+          });
+          return { proposal: proposal.data, signature };
+        });
+      },
+    );
 
-    const status = await this.gatewayClient.commitStatus(signedRequest);
+    // --- 2. ENDORSE, SUBMIT AND COMMIT, A FEW AT A TIME ---
+    const results = await mapWithConcurrency(
+      proposals,
+      concurrency,
+      (params, index) =>
+        tryCatch(async () => {
+          const item = ready[index];
+          if (!item.success) {
+            reportFailure(requestOptions, item.error, built[index].data?.txId);
+          }
+          return this.commitSignedProposal(
+            params,
+            item.data.proposal,
+            item.data.signature,
+            identity,
+            requestOptions,
+            retry,
+          );
+        }, getGroundedError),
+    );
 
-    if (status.result !== TxValidationCode.VALID) {
-      throw new Error(
-        `Transaction ${txId} failed to commit with status: ${
-          TxValidationCode[status.result]
-        } (${status.result})`,
+    // --- 3. SUM UP ---
+    const conflicted = results.filter(
+      (result) =>
+        !result.success &&
+        result.error instanceof CommitError &&
+        DEFAULT_RETRYABLE_CODES.includes(result.error.code),
+    ).length;
+    const succeeded = results.filter((result) => result.success).length;
+    return {
+      results,
+      summary: {
+        succeeded,
+        failed: results.length - succeeded - conflicted,
+        conflicted,
+      },
+    };
+  }
+
+  /**
+   * One transaction of a batch, from its already signed proposal to its commit. A retryable commit failure
+   * hands the remaining attempts to `submitAndCommit`'s retry loop, which re-endorses with fresh txIds.
+   */
+  private async commitSignedProposal(
+    params: ProposalParams,
+    proposal: UnsignedProposal,
+    signature: Uint8Array,
+    identity: AppIdentity,
+    options: RequestOptions,
+    retry?: RetryPolicy,
+  ): Promise<CommittedTransaction> {
+    const { txId } = proposal;
+    let result: unknown;
+    let status: TransactionStatus;
+    try {
+      assertCommitTrackerChannel(options, params.channelName);
+
+      const preparedTx = await this.sendEndorse(proposal, signature, options);
+      reportEndorsed(options, preparedTx);
+      const { transactionEnvelope } = preparedTx;
+      result = decodeSimulatedResult(
+        transactionEnvelope,
+        options.codec ?? this.codec,
+      );
+
+      const envelopeSignature = await signFabricSignature(
+        transactionEnvelope,
+        identity,
+      );
+      await this.sendSubmit(
+        {
+          txId,
+          channelName: params.channelName,
+          preparedTransaction: transactionEnvelope,
+        },
+        envelopeSignature,
+        options,
+      );
+      reportProgress(options, { stage: "submitted", txId });
+
+      status = await this.waitForCommit(params, txId, identity, options, {
+        timeoutMs: options.timeouts?.commitStatus,
+        signal: options.signal,
+      });
+    } catch (error) {
+      reportFailure(options, error, txId);
+    }
+
+    const { code, blockNumber } = status;
+    const attempt: TransactionAttempt = { txId, code, blockNumber };
+    if (code === TxValidationCode.VALID) {
+      reportProgress(options, { stage: "committed", txId, blockNumber });
+      return { txId, result, blockNumber, attempts: [attempt] };
+    }
+
+    const commitError = new CommitError(txId, code, blockNumber);
+    reportProgress(options, { stage: "failed", txId, error: commitError });
+    const retryableCodes = retry?.retryableCodes ?? DEFAULT_RETRYABLE_CODES;
+    if (!retry || retry.maxAttempts <= 1 || !retryableCodes.includes(code)) {
+      throw commitError;
+    }
+    await sleep(getBackoffDelay(1, retry), options.signal);
+    return this.commitWithRetries(params, identity, options, retry, [attempt]);
+  }
+
+  /**
+   * The retry loop of `submitAndCommit`, picking up after the `attempts` already made (none, or the batch's
+   * first one): each attempt endorses, submits and waits for its commit, and the backoff before it grows with
+   * the number of attempts so far.
+   */
+  private async commitWithRetries(
+    params: ProposalParams,
+    identity: AppIdentity,
+    options: RequestOptions,
+    retry: RetryPolicy | undefined,
+    attempts: TransactionAttempt[],
+  ): Promise<CommittedTransaction> {
+    const maxAttempts = Math.max(1, retry?.maxAttempts ?? 1);
+    const retryableCodes = retry?.retryableCodes ?? DEFAULT_RETRYABLE_CODES;
+
+    while (true) {
+      // --- 1. ENDORSEMENT & SUBMISSION ---
+      const submitted = await this.submitAsync(params, identity, options);
+      if (!submitted.success) {
+        throw submitted.error;
+      }
+      const { txId, result, commit } = submitted.data;
+
+      // --- 2. WAIT FOR COMMIT ---
+      const status = await commit.getStatus();
+      if (!status.success) {
+        throw status.error;
+      }
+      const { code, blockNumber } = status.data;
+      attempts.push({ txId, code, blockNumber });
+
+      // --- 3. SUCCESS ---
+      if (code === TxValidationCode.VALID) {
+        return { txId, result, blockNumber, attempts };
+      }
+
+      // --- 4. RETRY OR GIVE UP ---
+      if (attempts.length >= maxAttempts || !retryableCodes.includes(code)) {
+        throw new CommitError(txId, code, blockNumber, attempts);
+      }
+      await sleep(getBackoffDelay(attempts.length, retry), options.signal);
+    }
+  }
+
+  /** Waits for a commit through the request's commit tracker if it has one, or asks `commitStatus`. */
+  private waitForCommit(
+    params: ProposalParams,
+    txId: string,
+    identity: AppIdentity,
+    options: RequestOptions,
+    commitOptions: CommitOptions,
+  ): Promise<TransactionStatus> {
+    return options.commitTracker
+      ? options.commitTracker.waitForCommit(txId, commitOptions)
+      : this._waitForCommit(
+          params.channelName,
+          txId,
+          identity,
+          params.mspId,
+          commitOptions,
+        );
+  }
+
+  /** `waitForCommit` for `submitAsync`'s handle, reporting how it ended to `onProgress`. */
+  private async waitForCommitWithProgress(
+    params: ProposalParams,
+    txId: string,
+    identity: AppIdentity,
+    options: RequestOptions,
+    commitOptions: CommitOptions,
+  ): Promise<TransactionStatus> {
+    let status: TransactionStatus;
+    try {
+      status = await this.waitForCommit(
+        params,
+        txId,
+        identity,
+        options,
+        commitOptions,
       );
+    } catch (error) {
+      reportFailure(options, error, txId);
     }
+    const { code, blockNumber } = status;
+    reportProgress(
+      options,
+      code === TxValidationCode.VALID
+        ? { stage: "committed", txId, blockNumber }
+        : {
+            stage: "failed",
+            txId,
+            error: new CommitError(txId, code, blockNumber),
+          },
+    );
+    return status;
+  }
+
+  /**
+   * This function asks the Gateway's `commitStatus` endpoint whether our transaction made it into a block.
+   * The Gateway holds the call open until the transaction is committed, so this is a wait, not a busy poll.
+   * It reports the validation code as-is; deciding whether a non-`VALID` code is an error is up to the caller.
+   */
+  private async _waitForCommit(
+    channelName: string,
+    txId: string,
+    identity: AppIdentity,
+    mspId: string,
+    options: CommitOptions = {},
+  ): Promise<TransactionStatus> {
+    const request = this.newCommitStatusRequest(
+      { channelName, txId, mspId },
+      identity,
+    );
+    const signature = await signFabricSignature(request.requestBytes, identity);
+
+    return this.sendCommitStatusRequest(request, signature, options);
   }
 
   /**
@@ -155,40 +668,15 @@ export class FabricClient {
   public async evaluateTransaction(
     params: ProposalParams,
     identity: AppIdentity,
+    options: RequestOptions = {},
   ): Promise<Result<EvaluatedTransaction>> {
     return tryCatch(async () => {
-      const { txId, nonce, creatorBytes } = await generateTransactionId(
+      const proposal = await this.buildProposal(params, identity, options);
+      const signature = await signFabricSignature(
+        proposal.proposalBytes,
         identity,
-        params.mspId,
       );
-      const proposalPayloadBytes = buildProposalPayload(
-        params,
-        txId,
-        creatorBytes,
-        nonce,
-      );
-
-      const signature = await signFabricSignature(proposalPayloadBytes, identity);
-      const signedProposal = create(SignedProposalSchema, {
-        proposalBytes: proposalPayloadBytes,
-        signature,
-      });
-
-      const evaluateRequest = create(EvaluateRequestSchema, {
-        channelId: params.channelName,
-        transactionId: txId,
-        proposedTransaction: signedProposal,
-      });
-
-      const evaluateResponse =
-        await this.gatewayClient.evaluate(evaluateRequest);
-
-      const parsedResult = parseEvaluateResponse(evaluateResponse);
-      if (!parsedResult.success) {
-        throw parsedResult.error;
-      }
-
-      return { txId, ...parsedResult.data };
+      return this.sendEvaluate(proposal, signature, options);
     }, getGroundedError);
   }
 
@@ -203,43 +691,25 @@ export class FabricClient {
   public async prepareTransaction(
     params: ProposalParams,
     identity: AppIdentity,
+    options: RequestOptions = {},
   ): Promise<Result<PreparedTransaction>> {
     return tryCatch(async () => {
-      const { txId, nonce, creatorBytes } = await generateTransactionId(
-        identity,
-        params.mspId,
-      );
-      const proposalPayloadBytes = buildProposalPayload(
-        params,
-        txId,
-        creatorBytes,
-        nonce,
-      );
-
-      const signature = await signFabricSignature(proposalPayloadBytes, identity);
-      const signedProposal = create(SignedProposalSchema, {
-        proposalBytes: proposalPayloadBytes,
-        signature,
-      });
-
-      const endorseRequest = create(EndorseRequestSchema, {
-        channelId: params.channelName,
-        transactionId: txId,
-        proposedTransaction: signedProposal,
-      });
-
-      const endorseResponse = await this.gatewayClient.endorse(endorseRequest);
-
-      if (!endorseResponse.preparedTransaction?.payload) {
-        throw new Error(
-          "The Endorse response did not contain a valid prepared transaction.",
+      let txId: string | undefined;
+      try {
+        const proposal = await this.buildProposal(params, identity, options);
+        txId = proposal.txId;
+        reportProgress(options, { stage: "built", txId });
+        const signature = await signFabricSignature(
+          proposal.proposalBytes,
+          identity,
         );
+        reportProgress(options, { stage: "signed", txId });
+        const preparedTx = await this.sendEndorse(proposal, signature, options);
+        reportEndorsed(options, preparedTx);
+        return preparedTx;
+      } catch (error) {
+        reportFailure(options, error, txId);
       }
-
-      return {
-        txId,
-        transactionEnvelope: endorseResponse.preparedTransaction.payload,
-      };
     }, getGroundedError);
   }
 
@@ -254,33 +724,491 @@ export class FabricClient {
   public async submitSignedTransaction(
     params: SubmitParams,
     identity: AppIdentity,
+    options: RequestOptions = {},
   ): Promise<Result<SubmittedTransaction>> {
     return tryCatch(async () => {
-      const envelopeSignature = await signFabricSignature(
-        params.preparedTransaction,
+      let submitted: SubmittedTransaction;
+      try {
+        const envelopeSignature = await signFabricSignature(
+          params.preparedTransaction,
+          identity,
+        );
+        submitted = await this.sendSubmit(params, envelopeSignature, options);
+      } catch (error) {
+        reportFailure(options, error, params.txId);
+      }
+      reportProgress(options, { stage: "submitted", txId: params.txId });
+      return submitted;
+    }, getGroundedError);
+  }
+
+  // --- Offline Signing Methods ---
+
+  /**
+   * Q: What if the private key doesn't live in this app at all?
+   * A: Then you split the flow in three: build, sign, send. This is the "build" part.
+   *    It packs the proposal and gives you its bytes plus their SHA-256 digest, without signing anything.
+   *    Only the certificate is needed. Take the digest to wherever the key lives (another device, an approval
+   *    service, an HSM...), get a signature back and hand it to `evaluateWithSignature` or `endorseWithSignature`.
+   */
+  public async newProposal(
+    params: ProposalParams,
+    identity: Pick<AppIdentity, "cert">,
+    options: Pick<RequestOptions, "codec"> = {},
+  ): Promise<Result<UnsignedProposal>> {
+    return tryCatch(
+      () => this.buildProposal(params, identity, options),
+      getGroundedError,
+    );
+  }
+
+  /**
+   * Sends a proposal built by `newProposal` for evaluation, using a signature produced elsewhere.
+   * The signature can be DER-encoded or raw `R|S`; we normalize it before sending.
+   */
+  public async evaluateWithSignature(
+    proposal: UnsignedProposal,
+    signature: Uint8Array,
+    options: RequestOptions = {},
+  ): Promise<Result<EvaluatedTransaction>> {
+    return tryCatch(
+      () =>
+        this.sendEvaluate(
+          proposal,
+          normalizeFabricSignature(signature),
+          options,
+        ),
+      getGroundedError,
+    );
+  }
+
+  /**
+   * Sends a proposal built by `newProposal` for endorsement, using a signature produced elsewhere.
+   * The returned `PreparedTransaction` has its own `digest`; that's the next thing your signer has to sign.
+   */
+  public async endorseWithSignature(
+    proposal: UnsignedProposal,
+    signature: Uint8Array,
+    options: RequestOptions = {},
+  ): Promise<Result<PreparedTransaction>> {
+    return tryCatch(
+      () =>
+        this.sendEndorse(
+          proposal,
+          normalizeFabricSignature(signature),
+          options,
+        ),
+      getGroundedError,
+    );
+  }
+
+  /**
+   * The offline twin of `submitSignedTransaction`: same job, but the envelope signature comes from you.
+   */
+  public async submitWithSignature(
+    params: SubmitParams,
+    signature: Uint8Array,
+    options: RequestOptions = {},
+  ): Promise<Result<SubmittedTransaction>> {
+    return tryCatch(
+      () =>
+        this.sendSubmit(params, normalizeFabricSignature(signature), options),
+      getGroundedError,
+    );
+  }
+
+  /**
+   * Q: Can I see what I'm about to commit before I send it?
+   * A: Yes. This decodes a prepared transaction (or its raw `transactionEnvelope` bytes) into plain data: channel header,
+   *    creator, the chaincode call and its response, read/write sets per namespace (private data as hashes),
+   *    the chaincode event and every endorsement. Show it to your users, or check it before calling
+   *    `submitSignedTransaction`. Chaincode values are decoded with the client's codec unless you pass another.
+   */
+  public inspectPreparedTransaction(
+    prepared: PreparedTransaction | Uint8Array,
+    options: Pick<RequestOptions, "codec"> = {},
+  ): Result<InspectedTransaction> {
+    const payloadBytes = ArrayBuffer.isView(prepared)
+      ? prepared
+      : prepared.transactionEnvelope;
+    return tryCatchSync(() =>
+      decodePreparedTransaction(payloadBytes, options.codec ?? this.codec),
+    );
+  }
+
+  /**
+   * Builds the `commitStatus` request for a submitted transaction, ready to be signed offline.
+   */
+  public newCommitStatusRequest(
+    params: CommitStatusParams,
+    identity: Pick<AppIdentity, "cert">,
+  ): UnsignedCommitStatusRequest {
+    const creator = createSerializedIdentityBytes(params.mspId, identity.cert);
+    const requestBytes = buildCommitStatusRequest(
+      params.channelName,
+      params.txId,
+      creator,
+    );
+
+    return {
+      txId: params.txId,
+      channelName: params.channelName,
+      requestBytes,
+      digest: sha256(requestBytes),
+    };
+  }
+
+  /**
+   * Asks the Gateway how a transaction ended up, using a signature produced elsewhere.
+   * Unlike `submitAndCommit`, an invalid transaction is not an error here: you get its validation code back.
+   */
+  public async getCommitStatusWithSignature(
+    request: UnsignedCommitStatusRequest,
+    signature: Uint8Array,
+    options: RequestOptions = {},
+  ): Promise<Result<TransactionStatus>> {
+    return tryCatch(
+      () =>
+        this.sendCommitStatusRequest(
+          request,
+          normalizeFabricSignature(signature),
+          { timeoutMs: options.timeouts?.commitStatus, signal: options.signal },
+        ),
+      getGroundedError,
+    );
+  }
+
+  // --- Ledger Queries (qscc) ---
+
+  /**
+   * Q: How far along is the channel?
+   * A: This asks `qscc` for the ledger height and the hashes of the newest block and the one before it.
+   *    The newest block is number `height - 1`; hand that to `getBlockByNumber` to show it.
+   */
+  public async getChainInfo(
+    params: LedgerQueryParams,
+    identity: AppIdentity,
+    options: RequestOptions = {},
+  ): Promise<Result<DecodedChainInfo>> {
+    return this.queryLedger(
+      params,
+      "GetChainInfo",
+      [],
+      identity,
+      options,
+      decodeChainInfo,
+    );
+  }
+
+  /** Fetches a block by number, decoded like `decodeBlock` does. Chaincode values go through the codec. */
+  public async getBlockByNumber(
+    params: BlockByNumberParams,
+    identity: AppIdentity,
+    options: RequestOptions = {},
+  ): Promise<Result<DecodedBlock>> {
+    return this.queryLedger(
+      params,
+      "GetBlockByNumber",
+      [params.blockNumber.toString()],
+      identity,
+      options,
+      decodeBlock,
+    );
+  }
+
+  /** Fetches a block by its header hash. Follow `header.previousHash` with it to walk the chain backwards. */
+  public async getBlockByHash(
+    params: BlockByHashParams,
+    identity: AppIdentity,
+    options: RequestOptions = {},
+  ): Promise<Result<DecodedBlock>> {
+    return this.queryLedger(
+      params,
+      "GetBlockByHash",
+      [
+        typeof params.blockHash === "string"
+          ? hexToBytes(params.blockHash)
+          : params.blockHash,
+      ],
+      identity,
+      options,
+      decodeBlock,
+    );
+  }
+
+  /** Fetches the block a transaction landed in, with every other transaction in it. */
+  public async getBlockByTxId(
+    params: TransactionByIdParams,
+    identity: AppIdentity,
+    options: RequestOptions = {},
+  ): Promise<Result<DecodedBlock>> {
+    return this.queryLedger(
+      params,
+      "GetBlockByTxID",
+      [params.txId],
+      identity,
+      options,
+      decodeBlock,
+    );
+  }
+
+  /**
+   * Q: How do I look up a single transaction after the fact?
+   * A: By its txId, with this. You get it decoded like a transaction from `decodeBlock`: what it called,
+   *    what it read and wrote, who endorsed it, and the validation code it was committed with.
+   */
+  public async getTransactionById(
+    params: TransactionByIdParams,
+    identity: AppIdentity,
+    options: RequestOptions = {},
+  ): Promise<Result<DecodedBlockTransaction>> {
+    return this.queryLedger(
+      params,
+      "GetTransactionByID",
+      [params.txId],
+      identity,
+      options,
+      decodeProcessedTransaction,
+    );
+  }
+
+  /**
+   * Evaluates a `qscc` function against `params.channelName` and decodes the protobuf it answers with.
+   * The response itself skips the codec; only the chaincode values inside it go through it.
+   */
+  private async queryLedger<T>(
+    params: LedgerQueryParams,
+    functionName: string,
+    args: (string | Uint8Array)[],
+    identity: AppIdentity,
+    options: RequestOptions,
+    decode: (payload: Uint8Array, codec: PayloadCodec) => T,
+  ): Promise<Result<T>> {
+    return tryCatch(async () => {
+      const evaluated = await this.evaluateTransaction(
+        {
+          ...params,
+          chaincodeName: QSCC,
+          functionName,
+          args: [params.channelName, ...args],
+        },
         identity,
+        { ...options, codec: bytesCodec },
       );
+      if (!evaluated.success) {
+        throw evaluated.error;
+      }
+      return decode(evaluated.data.payload, options.codec ?? this.codec);
+    }, getGroundedError);
+  }
 
-      const clientSignedEnvelope = create(EnvelopeSchema, {
-        payload: params.preparedTransaction,
-        signature: envelopeSignature,
-      });
+  // --- Build & Send Support Methods ---
 
-      const submitRequest = create(SubmitRequestSchema, {
-        channelId: params.channelName,
-        transactionId: params.txId,
-        preparedTransaction: clientSignedEnvelope,
-      });
+  private async buildProposal(
+    params: ProposalParams,
+    identity: Pick<AppIdentity, "cert">,
+    options: Pick<RequestOptions, "codec">,
+  ): Promise<UnsignedProposal> {
+    const { txId, nonce, creatorBytes } = await generateTransactionId(
+      identity,
+      params.mspId,
+    );
+    const proposalBytes = buildProposalPayload(
+      params,
+      txId,
+      creatorBytes,
+      nonce,
+      this.tlsCertHash,
+      options.codec ?? this.codec,
+    );
 
-      await this.gatewayClient.submit(submitRequest);
+    return {
+      txId,
+      channelName: params.channelName,
+      endorsingOrganizations: params.endorsingOrganizations ?? [],
+      proposalBytes,
+      digest: sha256(proposalBytes),
+    };
+  }
 
-      return {
-        txId: params.txId,
-        status: "Transaction successfully submitted to the gateway.",
-      };
-    }, getGroundedError);
+  private async sendEvaluate(
+    proposal: UnsignedProposal,
+    signature: Uint8Array,
+    options: RequestOptions,
+  ): Promise<EvaluatedTransaction> {
+    const signedProposal = create(SignedProposalSchema, {
+      proposalBytes: proposal.proposalBytes,
+      signature,
+    });
+
+    const evaluateRequest = create(EvaluateRequestSchema, {
+      channelId: proposal.channelName,
+      transactionId: proposal.txId,
+      proposedTransaction: signedProposal,
+      targetOrganizations: proposal.endorsingOrganizations,
+    });
+
+    const evaluateResponse = await this.callGateway(
+      "evaluate",
+      proposal.channelName,
+      proposal.txId,
+      GatewayError,
+      { signal: options.signal, timeoutMs: options.timeouts?.evaluate },
+      (callOptions) =>
+        this.gatewayClient.evaluate(evaluateRequest, callOptions),
+    );
+
+    const parsedResult = parseEvaluateResponse(
+      evaluateResponse,
+      options.codec ?? this.codec,
+    );
+    if (!parsedResult.success) {
+      throw parsedResult.error;
+    }
+
+    return { txId: proposal.txId, ...parsedResult.data };
+  }
+
+  private async sendEndorse(
+    proposal: UnsignedProposal,
+    signature: Uint8Array,
+    options: RequestOptions,
+  ): Promise<PreparedTransaction> {
+    const signedProposal = create(SignedProposalSchema, {
+      proposalBytes: proposal.proposalBytes,
+      signature,
+    });
+
+    const endorseRequest = create(EndorseRequestSchema, {
+      channelId: proposal.channelName,
+      transactionId: proposal.txId,
+      proposedTransaction: signedProposal,
+      endorsingOrganizations: proposal.endorsingOrganizations,
+    });
+
+    const endorseResponse = await this.callGateway(
+      "endorse",
+      proposal.channelName,
+      proposal.txId,
+      EndorseError,
+      { signal: options.signal, timeoutMs: options.timeouts?.endorse },
+      (callOptions) => this.gatewayClient.endorse(endorseRequest, callOptions),
+    );
+
+    if (!endorseResponse.preparedTransaction?.payload) {
+      throw new Error(
+        "The Endorse response did not contain a valid prepared transaction.",
+      );
+    }
+
+    const transactionEnvelope = endorseResponse.preparedTransaction.payload;
+    return {
+      txId: proposal.txId,
+      transactionEnvelope,
+      digest: sha256(transactionEnvelope),
+    };
+  }
+
+  private async sendSubmit(
+    params: SubmitParams,
+    envelopeSignature: Uint8Array,
+    options: RequestOptions,
+  ): Promise<SubmittedTransaction> {
+    const clientSignedEnvelope = create(EnvelopeSchema, {
+      payload: params.preparedTransaction,
+      signature: envelopeSignature,
+    });
+
+    const submitRequest = create(SubmitRequestSchema, {
+      channelId: params.channelName,
+      transactionId: params.txId,
+      preparedTransaction: clientSignedEnvelope,
+    });
+
+    options.commitTracker?.markSubmitted?.(params.txId);
+    await this.callGateway(
+      "submit",
+      params.channelName,
+      params.txId,
+      SubmitError,
+      { signal: options.signal, timeoutMs: options.timeouts?.submit },
+      (callOptions) => this.gatewayClient.submit(submitRequest, callOptions),
+    );
+
+    return {
+      txId: params.txId,
+      status: "Transaction successfully submitted to the gateway.",
+    };
+  }
+
+  private async sendCommitStatusRequest(
+    request: UnsignedCommitStatusRequest,
+    signature: Uint8Array,
+    options: CommitOptions = {},
+  ): Promise<TransactionStatus> {
+    const signedRequest = create(SignedCommitStatusRequestSchema, {
+      request: request.requestBytes,
+      signature,
+    });
+
+    const status = await this.callGateway(
+      "commitStatus",
+      request.channelName,
+      request.txId,
+      CommitStatusError,
+      options,
+      (callOptions) =>
+        this.gatewayClient.commitStatus(signedRequest, callOptions),
+    );
+
+    return {
+      txId: request.txId,
+      code: status.result,
+      blockNumber: status.blockNumber,
+    };
   }
 
+  /**
+   * Every unary Gateway call goes through here. The configured interceptors get to see (and add headers to)
+   * each one before it hits the wire, the abort signal and the phase's deadline are handed to Connect,
+   * and whatever goes wrong comes back out as a typed error: a `TimeoutError` if the deadline was hit,
+   * otherwise the `errorClass` for this phase.
+   */
+  private callGateway<T>(
+    phase: TransactionPhase,
+    channelName: string,
+    txId: string,
+    errorClass: GatewayErrorClass,
+    options: CommitOptions,
+    call: (callOptions: ConnectCallOptions) => Promise<T>,
+  ): Promise<T> {
+    const method = phase.charAt(0).toUpperCase() + phase.slice(1);
+    return runWithInterceptors(
+      this.interceptors,
+      {
+        operation: phase,
+        channelName,
+        txId,
+        url: `${this.gatewayUrl}/${Gateway.typeName}/${method}`,
+        header: new Headers(),
+      },
+      (context) =>
+        call({
+          headers: context.header,
+          signal: options.signal,
+          timeoutMs: options.timeoutMs,
+        }),
+    ).catch((error) => {
+      if (
+        options.timeoutMs !== undefined &&
+        error instanceof ConnectError &&
+        error.code === Code.DeadlineExceeded
+      ) {
+        throw new TimeoutError(phase, options.timeoutMs, txId, error);
+      }
+      throw toGatewayError(error, errorClass, txId);
+    });
+  }
 
   // --- Event Methods ---
 
@@ -301,6 +1229,24 @@ export class FabricClient {
     return this.eventService.onChaincodeEvent(params, identity, callbacks);
   }
 
+  /**
+   * Q: The events from `onChaincodeEvent` carry raw bytes. How do I read them?
+   * A: Pass the response through here. You get one entry per event, with its payload decoded
+   *    by the codec you give (or the client's one, if you don't).
+   */
+  public decodeChaincodeEvents<T = any>(
+    response: ChaincodeEventsResponse,
+    codec: PayloadCodec<T> = this.codec,
+  ): DecodedChaincodeEvent<T>[] {
+    return response.events.map((event) => ({
+      blockNumber: response.blockNumber,
+      txId: event.txId,
+      chaincodeName: event.chaincodeId,
+      eventName: event.eventName,
+      payload: codec.decode(event.payload),
+    }));
+  }
+
   /**
    * Q: Same question as above, but for block events.
    * A: Exactly the same answer! This is the callback-friendly version of `listenToBlockEvents`.
@@ -315,5 +1261,60 @@ export class FabricClient {
   ): () => void {
     return this.eventService.onBlockEvent(params, identity, callbacks);
   }
-}
 
+  /**
+   * Q: And for whole blocks?
+   * A: The callback-friendly version of `listenToFullBlocks`: every block from the peer's `Deliver` service,
+   *    decoded with the client's codec.
+   */
+  public onFullBlock(
+    params: BlockEventParams,
+    identity: AppIdentity,
+    callbacks: EventCallbacks<DecodedBlock>,
+  ): () => void {
+    return this.eventService.onFullBlock(params, identity, callbacks);
+  }
+
+  /** The callback-friendly version of `listenToBlockAndPrivateData`: decoded blocks with their private data. */
+  public onBlockAndPrivateData(
+    params: BlockEventParams,
+    identity: AppIdentity,
+    callbacks: EventCallbacks<DecodedBlockAndPrivateData>,
+  ): () => void {
+    return this.eventService.onBlockAndPrivateData(params, identity, callbacks);
+  }
+
+  /**
+   * Q: What if many parts of my app watch the same chaincode?
+   * A: Subscribe here instead of calling `onChaincodeEvent` each time: they all share one stream, and each
+   *    gets only the events matching its filter. See `EventService.subscribeToChaincodeEvents`.
+   */
+  public subscribeToChaincodeEvents(
+    params: SharedChaincodeEventParams,
+    identity: AppIdentity,
+    callbacks: EventCallbacks<ChaincodeEventsResponse>,
+    filter?: ChaincodeEventFilter,
+  ): () => void {
+    return this.eventService.subscribeToChaincodeEvents(
+      params,
+      identity,
+      callbacks,
+      filter,
+    );
+  }
+
+  /** The shared version of `onBlockEvent`. See `EventService.subscribeToBlockEvents`. */
+  public subscribeToBlockEvents(
+    params: SharedBlockEventParams,
+    identity: AppIdentity,
+    callbacks: EventCallbacks<FilteredBlock>,
+    filter?: BlockEventFilter,
+  ): () => void {
+    return this.eventService.subscribeToBlockEvents(
+      params,
+      identity,
+      callbacks,
+      filter,
+    );
+  }
+}
@@ -0,0 +1,46 @@
+import { describe, it, expect } from "vitest";
+import { runWithInterceptors } from "./interceptors";
+import type { FabricCallContext, FabricInterceptor } from "../models";
+
+describe("runWithInterceptors", () => {
+  const context = (): FabricCallContext => ({
+    operation: "endorse",
+    channelName: "mychannel",
+    txId: "a_mock_tx_id",
+    url: "http://localhost:8088/gateway.Gateway/Endorse",
+    header: new Headers(),
+  });
+
+  it("should run interceptors outermost-first and let them add headers", async () => {
+    const seen: string[] = [];
+    const auth: FabricInterceptor = (next) => async (ctx) => {
+      seen.push(`auth:${ctx.operation}:${ctx.txId}`);
+      ctx.header.set("authorization", "Bearer a_mock_token");
+      return next(ctx);
+    };
+    const logger: FabricInterceptor = (next) => async (ctx) => {
+      seen.push(`logger:before:${ctx.channelName}`);
+      const response = await next(ctx);
+      seen.push("logger:after");
+      return response;
+    };
+
+    const result = await runWithInterceptors([auth, logger], context(), async (ctx) => {
+      seen.push("call");
+      return ctx.header.get("authorization");
+    });
+
+    expect(result).toBe("Bearer a_mock_token");
+    expect(seen).toEqual([
+      "auth:endorse:a_mock_tx_id",
+      "logger:before:mychannel",
+      "call",
+      "logger:after",
+    ]);
+  });
+
+  it("should make the call directly when there are no interceptors", async () => {
+    const result = await runWithInterceptors(undefined, context(), async () => 42);
+    expect(result).toBe(42);
+  });
+});
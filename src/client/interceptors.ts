@@ -0,0 +1,24 @@
+import type {
+  FabricCallContext,
+  FabricCallHandler,
+  FabricInterceptor,
+} from "../models";
+
+/**
+ * Q: How does the interceptor chain work?
+ * A: Same idea as Connect's (or Express's) middleware. Each interceptor gets the `next` handler and returns
+ *    a new one, so it can touch the context before the call, look at the result after it, or bail out.
+ *    The first interceptor in the list is the outermost one. `call` is the actual request, and it receives
+ *    the context after everyone had their say (including any headers they added).
+ */
+export function runWithInterceptors<T>(
+  interceptors: FabricInterceptor[] | undefined,
+  context: FabricCallContext,
+  call: (context: FabricCallContext) => Promise<T>,
+): Promise<T> {
+  const handler = (interceptors ?? []).reduceRight<FabricCallHandler>(
+    (next, interceptor) => interceptor(next),
+    call,
+  );
+  return handler(context) as Promise<T>;
+}
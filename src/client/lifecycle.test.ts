@@ -0,0 +1,108 @@
+import { describe, it, expect, vi } from "vitest";
+import { create, fromBinary, toBinary } from "@bufbuild/protobuf";
+import { Network } from "./contract";
+import type { FabricClient } from "./fabric-client";
+import type { AppIdentity, ProposalParams, RequestOptions } from "../models";
+import {
+  ApproveChaincodeDefinitionForMyOrgArgsSchema,
+  CheckCommitReadinessResultSchema,
+  QueryApprovedChaincodeDefinitionArgsSchema,
+  QueryApprovedChaincodeDefinitionResultSchema,
+} from "../generated_protos/peer/lifecycle/lifecycle_pb";
+
+const identity: AppIdentity = {
+  cert: "a_mock_cert",
+  sign: async () => new Uint8Array(),
+};
+
+describe("Lifecycle", () => {
+  it("should approve with the package as the source, endorsed by our own org only", async () => {
+    const client = {
+      submitAndCommit: vi.fn().mockResolvedValue({
+        success: true,
+        data: { txId: "tx1", result: {}, blockNumber: 4n, attempts: [] },
+        error: null,
+      }),
+    };
+    const lifecycle = new Network(client as unknown as FabricClient, "mychannel", identity, "Org1MSP").getLifecycle();
+
+    const approved = await lifecycle.approveChaincodeDefinitionForMyOrg({
+      name: "basic",
+      version: "1.1",
+      sequence: 2,
+      packageId: "basic_1.1:abc",
+    });
+
+    expect(approved.data?.blockNumber).toBe(4n);
+    const [params] = client.submitAndCommit.mock.calls[0] as [ProposalParams];
+    expect(params).toMatchObject({
+      chaincodeName: "_lifecycle",
+      functionName: "ApproveChaincodeDefinitionForMyOrg",
+      endorsingOrganizations: ["Org1MSP"],
+    });
+    const args = fromBinary(ApproveChaincodeDefinitionForMyOrgArgsSchema, params.args![0] as Uint8Array);
+    expect(args).toMatchObject({ name: "basic", version: "1.1", sequence: 2n });
+    expect(args.source?.Type).toEqual({ case: "localPackage", value: expect.objectContaining({ packageId: "basic_1.1:abc" }) });
+  });
+
+  it("should decode the commit readiness with the lifecycle result schema", async () => {
+    const client = {
+      evaluateTransaction: vi.fn(async (_params: ProposalParams, _identity: AppIdentity, options: RequestOptions) => {
+        const payload = toBinary(
+          CheckCommitReadinessResultSchema,
+          create(CheckCommitReadinessResultSchema, { approvals: { Org1MSP: true, Org2MSP: false } }),
+        );
+        return {
+          success: true,
+          data: { txId: "tx2", status: 200, message: "", payload, parsedData: options.codec!.decode(payload) },
+          error: null,
+        };
+      }),
+    };
+    const lifecycle = new Network(client as unknown as FabricClient, "mychannel", identity, "Org1MSP").getLifecycle();
+
+    const readiness = await lifecycle.checkCommitReadiness({ name: "basic", version: "1.1", sequence: 2 });
+
+    expect(readiness.data?.approvals).toEqual({ Org1MSP: true, Org2MSP: false });
+  });
+
+  it("should look up our own org's approval, the latest one unless a sequence is given", async () => {
+    const client = {
+      evaluateTransaction: vi.fn(async (_params: ProposalParams, _identity: AppIdentity, options: RequestOptions) => {
+        const payload = toBinary(
+          QueryApprovedChaincodeDefinitionResultSchema,
+          create(QueryApprovedChaincodeDefinitionResultSchema, {
+            sequence: 2n,
+            version: "1.1",
+            source: { Type: { case: "localPackage", value: { packageId: "basic_1.1:abc" } } },
+          }),
+        );
+        return {
+          success: true,
+          data: { txId: "tx3", status: 200, message: "", payload, parsedData: options.codec!.decode(payload) },
+          error: null,
+        };
+      }),
+    };
+    const lifecycle = new Network(client as unknown as FabricClient, "mychannel", identity, "Org1MSP").getLifecycle();
+
+    const approved = await lifecycle.queryApprovedChaincodeDefinition({ name: "basic" });
+    await lifecycle.queryApprovedChaincodeDefinition({ name: "basic", sequence: 1 });
+
+    expect(approved.data).toMatchObject({ sequence: 2n, version: "1.1" });
+    expect(approved.data?.source?.Type).toEqual({
+      case: "localPackage",
+      value: expect.objectContaining({ packageId: "basic_1.1:abc" }),
+    });
+    const calls = client.evaluateTransaction.mock.calls.map(([params]) => params);
+    expect(calls[0]).toMatchObject({
+      chaincodeName: "_lifecycle",
+      functionName: "QueryApprovedChaincodeDefinition",
+      endorsingOrganizations: ["Org1MSP"],
+    });
+    const sequences = calls.map(
+      (params) => fromBinary(QueryApprovedChaincodeDefinitionArgsSchema, params.args![0] as Uint8Array).sequence,
+    );
+    expect(sequences).toEqual([0n, 1n]);
+  });
+});
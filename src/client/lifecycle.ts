@@ -0,0 +1,249 @@
+import {
+  create,
+  toBinary,
+  type DescMessage,
+  type MessageInitShape,
+  type MessageShape,
+} from "@bufbuild/protobuf";
+import type {
+  AppIdentity,
+  ApprovedChaincodeDefinitionQuery,
+  ChaincodeApproval,
+  ChaincodeDefinition,
+  CheckCommitReadinessResult,
+  CommittedTransaction,
+  LifecycleSubmitOptions,
+  ProposalParams,
+  QueryApprovedChaincodeDefinitionResult,
+  QueryChaincodeDefinitionsResult,
+  QueryInstalledChaincodesResult,
+  RequestOptions,
+  Result,
+  SubmitAndCommitOptions,
+} from "../models";
+import {
+  ApproveChaincodeDefinitionForMyOrgArgsSchema,
+  ApproveChaincodeDefinitionForMyOrgResultSchema,
+  CheckCommitReadinessArgsSchema,
+  CheckCommitReadinessResultSchema,
+  CommitChaincodeDefinitionArgsSchema,
+  CommitChaincodeDefinitionResultSchema,
+  QueryApprovedChaincodeDefinitionArgsSchema,
+  QueryApprovedChaincodeDefinitionResultSchema,
+  QueryChaincodeDefinitionsArgsSchema,
+  QueryChaincodeDefinitionsResultSchema,
+  QueryInstalledChaincodesArgsSchema,
+  QueryInstalledChaincodesResultSchema,
+} from "../generated_protos/peer/lifecycle/lifecycle_pb";
+import { ApplicationPolicySchema } from "../generated_protos/peer/policy_pb";
+import { protobufCodec } from "../codecs/payload-codecs";
+import type { FabricClient } from "./fabric-client";
+
+/** The lifecycle system chaincode, which holds the chaincode definitions of a channel. */
+const LIFECYCLE = "_lifecycle";
+
+/** The fields every `_lifecycle` definition message shares, from a `ChaincodeDefinition`. */
+function toDefinitionArgs(definition: ChaincodeDefinition) {
+  return {
+    name: definition.name,
+    version: definition.version,
+    sequence: BigInt(definition.sequence),
+    endorsementPlugin: definition.endorsementPlugin ?? "",
+    validationPlugin: definition.validationPlugin ?? "",
+    validationParameter: definition.endorsementPolicy
+      ? toBinary(
+          ApplicationPolicySchema,
+          create(ApplicationPolicySchema, definition.endorsementPolicy),
+        )
+      : new Uint8Array(),
+    collections: definition.collections,
+    initRequired: definition.initRequired ?? false,
+  };
+}
+
+/**
+ * Q: Can my admin console upgrade a chaincode without the `peer` CLI?
+ * A: Yes, this is the `_lifecycle` part of it, bound to a channel and an org admin's identity.
+ *    Find your package with `queryInstalledChaincodes`, `approveChaincodeDefinitionForMyOrg` with it,
+ *    wait until `checkCommitReadiness` says enough orgs did the same, then `commitChaincodeDefinition`.
+ *    Arguments and results are the `_lifecycle` protobuf messages; we encode and decode them for you.
+ *
+ * Q: Which peers do these go to?
+ * A: Your own org's for the installed packages and for approvals, given or looked up: those are about your org
+ *    alone, and an approval endorsed by anyone else is rejected. The commit has to satisfy the channel's
+ *    `LifecycleEndorsement` policy, so it goes wherever the Gateway (or your `endorsingOrganizations`) says.
+ *    Installing a package isn't here; it goes to a peer's admin endpoint, not through the Gateway.
+ */
+export class Lifecycle {
+  constructor(
+    private readonly client: FabricClient,
+    public readonly channelName: string,
+    private readonly identity: AppIdentity,
+    public readonly mspId: string,
+  ) {}
+
+  /** The chaincode packages installed on your org's peers, with their package IDs. */
+  public async queryInstalledChaincodes(
+    options: RequestOptions = {},
+  ): Promise<Result<QueryInstalledChaincodesResult>> {
+    return this.evaluate(
+      "QueryInstalledChaincodes",
+      QueryInstalledChaincodesArgsSchema,
+      {},
+      QueryInstalledChaincodesResultSchema,
+      [this.mspId],
+      options,
+    );
+  }
+
+  /**
+   * Approves a chaincode definition for your org. It's a transaction on the channel, endorsed by your org's
+   * peers only, and it resolves once it has been committed.
+   */
+  public async approveChaincodeDefinitionForMyOrg(
+    approval: ChaincodeApproval,
+    options: SubmitAndCommitOptions = {},
+  ): Promise<Result<CommittedTransaction>> {
+    return this.submit(
+      "ApproveChaincodeDefinitionForMyOrg",
+      ApproveChaincodeDefinitionForMyOrgArgsSchema,
+      {
+        ...toDefinitionArgs(approval),
+        source: {
+          Type: approval.packageId
+            ? {
+                case: "localPackage",
+                value: { packageId: approval.packageId },
+              }
+            : { case: "unavailable", value: {} },
+        },
+      },
+      ApproveChaincodeDefinitionForMyOrgResultSchema,
+      [this.mspId],
+      options,
+    );
+  }
+
+  /**
+   * The definition your org approved for a chaincode, at `sequence` or the latest one, with the package your
+   * peers run it from. Find out what you approved before approving the next sequence.
+   */
+  public async queryApprovedChaincodeDefinition(
+    query: ApprovedChaincodeDefinitionQuery,
+    options: RequestOptions = {},
+  ): Promise<Result<QueryApprovedChaincodeDefinitionResult>> {
+    return this.evaluate(
+      "QueryApprovedChaincodeDefinition",
+      QueryApprovedChaincodeDefinitionArgsSchema,
+      { name: query.name, sequence: BigInt(query.sequence ?? 0) },
+      QueryApprovedChaincodeDefinitionResultSchema,
+      [this.mspId],
+      options,
+    );
+  }
+
+  /** Which orgs have approved exactly this definition so far, as `{ [mspId]: approved }`. */
+  public async checkCommitReadiness(
+    definition: ChaincodeDefinition,
+    options: RequestOptions = {},
+  ): Promise<Result<CheckCommitReadinessResult>> {
+    return this.evaluate(
+      "CheckCommitReadiness",
+      CheckCommitReadinessArgsSchema,
+      toDefinitionArgs(definition),
+      CheckCommitReadinessResultSchema,
+      undefined,
+      options,
+    );
+  }
+
+  /**
+   * Commits a chaincode definition to the channel. Enough orgs must have approved it first
+   * (see `checkCommitReadiness`), and enough of them must endorse the commit.
+   */
+  public async commitChaincodeDefinition(
+    definition: ChaincodeDefinition,
+    options: LifecycleSubmitOptions = {},
+  ): Promise<Result<CommittedTransaction>> {
+    const { endorsingOrganizations, ...submitOptions } = options;
+    return this.submit(
+      "CommitChaincodeDefinition",
+      CommitChaincodeDefinitionArgsSchema,
+      toDefinitionArgs(definition),
+      CommitChaincodeDefinitionResultSchema,
+      endorsingOrganizations,
+      submitOptions,
+    );
+  }
+
+  /** Every chaincode definition committed on the channel. */
+  public async queryChaincodeDefinitions(
+    options: RequestOptions = {},
+  ): Promise<Result<QueryChaincodeDefinitionsResult>> {
+    return this.evaluate(
+      "QueryChaincodeDefinitions",
+      QueryChaincodeDefinitionsArgsSchema,
+      {},
+      QueryChaincodeDefinitionsResultSchema,
+      undefined,
+      options,
+    );
+  }
+
+  private async evaluate<A extends DescMessage, R extends DescMessage>(
+    functionName: string,
+    argsSchema: A,
+    args: MessageInitShape<A>,
+    resultSchema: R,
+    endorsingOrganizations: string[] | undefined,
+    options: RequestOptions,
+  ): Promise<Result<MessageShape<R>>> {
+    const evaluated = await this.client.evaluateTransaction(
+      this.toProposalParams(
+        functionName,
+        toBinary(argsSchema, create(argsSchema, args)),
+        endorsingOrganizations,
+      ),
+      this.identity,
+      { ...options, codec: protobufCodec(resultSchema) },
+    );
+    if (!evaluated.success) {
+      return evaluated;
+    }
+    return { success: true, data: evaluated.data.parsedData, error: null };
+  }
+
+  private async submit<A extends DescMessage, R extends DescMessage>(
+    functionName: string,
+    argsSchema: A,
+    args: MessageInitShape<A>,
+    resultSchema: R,
+    endorsingOrganizations: string[] | undefined,
+    options: SubmitAndCommitOptions,
+  ): Promise<Result<CommittedTransaction>> {
+    return this.client.submitAndCommit(
+      this.toProposalParams(
+        functionName,
+        toBinary(argsSchema, create(argsSchema, args)),
+        endorsingOrganizations,
+      ),
+      this.identity,
+      { ...options, codec: protobufCodec(resultSchema) },
+    );
+  }
+
+  private toProposalParams(
+    functionName: string,
+    args: Uint8Array,
+    endorsingOrganizations: string[] | undefined,
+  ): ProposalParams {
+    return {
+      mspId: this.mspId,
+      channelName: this.channelName,
+      chaincodeName: LIFECYCLE,
+      functionName,
+      args: [args],
+      endorsingOrganizations,
+    };
+  }
+}
@@ -0,0 +1,99 @@
+// @vitest-environment node
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { createFabricTransport } from "./transports";
+import * as connectWeb from "@connectrpc/connect-web";
+import * as connectNode from "@connectrpc/connect-node";
+
+vi.mock("@connectrpc/connect-web", () => ({
+  createConnectTransport: vi.fn(() => ({ kind: "web-connect" })),
+  createGrpcWebTransport: vi.fn(() => ({ kind: "web-grpc-web" })),
+}));
+vi.mock("@connectrpc/connect-node", () => ({
+  createConnectTransport: vi.fn(() => ({ kind: "node-connect" })),
+  createGrpcTransport: vi.fn(() => ({ kind: "node-grpc" })),
+  createGrpcWebTransport: vi.fn(() => ({ kind: "node-grpc-web" })),
+}));
+
+const gatewayUrl = "https://gateway.example.com";
+
+function base64(bytes: number[]): string {
+  return Buffer.from(bytes).toString("base64");
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.clearAllMocks();
+});
+
+describe("createFabricTransport", () => {
+  it("should use createTransport when there is one", () => {
+    const transport = {} as never;
+    const createTransport = vi.fn(() => transport);
+
+    expect(createFabricTransport({ gatewayUrl, createTransport })).toBe(transport);
+    expect(createTransport).toHaveBeenCalledWith({ baseUrl: gatewayUrl });
+  });
+
+  it("should pick the Node transport for the protocol and hand it the TLS options", () => {
+    expect(createFabricTransport({ gatewayUrl, tlsCaCert: "ca" })).toEqual({ kind: "node-grpc-web" });
+    expect(createFabricTransport({ gatewayUrl, protocol: "connect" })).toEqual({ kind: "node-connect" });
+    expect(createFabricTransport({ gatewayUrl, protocol: "grpc", tlsClientCert: "cert", tlsClientKey: "key" })).toEqual({
+      kind: "node-grpc",
+    });
+
+    expect(connectNode.createGrpcWebTransport).toHaveBeenCalledWith(
+      expect.objectContaining({ baseUrl: gatewayUrl, nodeOptions: expect.objectContaining({ ca: ["ca"] }) }),
+    );
+    expect(connectNode.createGrpcTransport).toHaveBeenCalledWith(
+      expect.objectContaining({ nodeOptions: expect.objectContaining({ cert: "cert", key: "key" }) }),
+    );
+  });
+
+  it("should pick the browser transports in a browser and refuse native gRPC there", () => {
+    vi.stubGlobal("window", {});
+
+    expect(createFabricTransport({ gatewayUrl })).toEqual({ kind: "web-grpc-web" });
+    expect(createFabricTransport({ gatewayUrl, protocol: "connect" })).toEqual({ kind: "web-connect" });
+    expect(() => createFabricTransport({ gatewayUrl, protocol: "grpc" })).toThrow(/only works in Node/);
+  });
+
+  it("should refuse TLS options for grpc-web-text in Node instead of ignoring them", () => {
+    expect(() => createFabricTransport({ gatewayUrl, protocol: "grpc-web-text", tlsCaCert: "ca" })).toThrow(
+      /grpc-web-text/,
+    );
+  });
+});
+
+describe("grpc-web-text fetch", () => {
+  it("should send base64 and split the base64 response at every padded frame", async () => {
+    // Two frames, each base64-encoded on its own (so each ends in padding), arriving in awkward chunks.
+    const firstFrame = [0, 0, 0, 0, 2, 0x2a, 0x2b];
+    const secondFrame = [0x80, 0, 0, 0, 2, 0x0d, 0x0a];
+    const text = base64(firstFrame) + base64(secondFrame);
+    expect(base64(firstFrame)).toMatch(/=$/);
+    const chunks = [text.slice(0, 3), text.slice(3, 10), text.slice(10)];
+    const fetchMock = vi.fn(
+      async (_input: RequestInfo | URL, _init?: RequestInit) =>
+        new Response(
+          new ReadableStream({
+            start(controller) {
+              for (const chunk of chunks) controller.enqueue(new TextEncoder().encode(chunk));
+              controller.close();
+            },
+          }),
+          { headers: { "content-type": "application/grpc-web-text+proto" } },
+        ),
+    );
+    vi.stubGlobal("fetch", fetchMock);
+
+    createFabricTransport({ gatewayUrl, protocol: "grpc-web-text" });
+    const { fetch } = vi.mocked(connectWeb.createGrpcWebTransport).mock.calls[0][0];
+    const response = await fetch!(gatewayUrl, { method: "POST", body: new Uint8Array([1, 2, 3]) });
+
+    const [, init] = fetchMock.mock.calls[0];
+    expect(init?.body).toBe(base64([1, 2, 3]));
+    expect(new Headers(init?.headers).get("content-type")).toBe("application/grpc-web-text+proto");
+    expect(response.headers.get("content-type")).toBe("application/grpc-web+proto");
+    expect(new Uint8Array(await response.arrayBuffer())).toEqual(new Uint8Array([...firstFrame, ...secondFrame]));
+  });
+});
@@ -0,0 +1,160 @@
+import type { Transport } from "@connectrpc/connect";
+import {
+  createConnectTransport as createBrowserConnectTransport,
+  createGrpcWebTransport as createBrowserGrpcWebTransport,
+} from "@connectrpc/connect-web";
+import {
+  createConnectTransport as createNodeConnectTransport,
+  createGrpcTransport as createNodeGrpcTransport,
+  createGrpcWebTransport as createNodeGrpcWebTransport,
+} from "@connectrpc/connect-node";
+import type { FabricClientConfig } from "../models";
+import { isomorphicAtob, isomorphicBtoa } from "../utils/isomorphic-helpers";
+
+const GRPC_WEB_CONTENT_TYPE = "application/grpc-web+proto";
+const GRPC_WEB_TEXT_CONTENT_TYPE = "application/grpc-web-text+proto";
+
+function bytesToBase64(bytes: Uint8Array): string {
+  let binary = "";
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return isomorphicBtoa(binary);
+}
+
+function base64ToBytes(base64: string): Uint8Array {
+  const binary = isomorphicAtob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+/**
+ * A grpc-web-text response is a series of base64 chunks, and each chunk may carry its own `=` padding.
+ * So we decode whole 4-character groups as they arrive and split wherever a padded chunk ends.
+ */
+function createBase64DecodeStream(): TransformStream<Uint8Array, Uint8Array> {
+  const textDecoder = new TextDecoder();
+  let pending = "";
+  return new TransformStream({
+    transform(chunk, controller) {
+      pending += textDecoder.decode(chunk, { stream: true });
+      const usable = pending.length - (pending.length % 4);
+      const text = pending.slice(0, usable);
+      pending = pending.slice(usable);
+      for (const segment of text.split(/(?<==)(?=[^=])/)) {
+        if (segment) controller.enqueue(base64ToBytes(segment));
+      }
+    },
+    flush(controller) {
+      if (pending) controller.enqueue(base64ToBytes(pending));
+    },
+  });
+}
+
+/**
+ * Q: Connect doesn't speak grpc-web-text. Why do we?
+ * A: Some older proxies (and anything that mangles binary bodies) only accept the base64 flavour of grpc-web.
+ *    Rather than write a whole new transport, we wrap `fetch`: the binary grpc-web request goes out as base64,
+ *    and the base64 response is decoded back into binary before Connect ever sees it.
+ */
+function createGrpcWebTextFetch(
+  fetchImpl: typeof globalThis.fetch = globalThis.fetch,
+): typeof globalThis.fetch {
+  return async (input, init = {}) => {
+    const headers = new Headers(init.headers);
+    headers.set("content-type", GRPC_WEB_TEXT_CONTENT_TYPE);
+    headers.set("accept", GRPC_WEB_TEXT_CONTENT_TYPE);
+    const body =
+      init.body instanceof Uint8Array ? bytesToBase64(init.body) : init.body;
+
+    const response = await fetchImpl(input, { ...init, headers, body });
+
+    const responseHeaders = new Headers(response.headers);
+    if (
+      responseHeaders
+        .get("content-type")
+        ?.startsWith(GRPC_WEB_TEXT_CONTENT_TYPE)
+    ) {
+      responseHeaders.set("content-type", GRPC_WEB_CONTENT_TYPE);
+    }
+    return new Response(
+      response.body?.pipeThrough(createBase64DecodeStream()) ?? null,
+      {
+        status: response.status,
+        statusText: response.statusText,
+        headers: responseHeaders,
+      },
+    );
+  };
+}
+
+/**
+ * Q: Which transport am I getting?
+ * A: Whatever `config.createTransport` builds, if you gave us one. Otherwise we pick a built-in one
+ *    from `config.protocol` (default `"grpc-web"`) and the environment we're running in:
+ *    - `"grpc-web"`: binary grpc-web, for the usual grpc-web proxy in front of the peer.
+ *    - `"grpc-web-text"`: base64 grpc-web, for proxies that only speak that. Uses `fetch`, also in Node,
+ *      so in Node it can't take the TLS options below; we'd rather refuse them than quietly ignore them.
+ *    - `"connect"`: the Connect protocol, for a Connect-aware proxy.
+ *    - `"grpc"`: native gRPC over HTTP/2, Node only. Talks to the peer's Gateway directly, no proxy needed.
+ *    In Node, the TLS CA and the mutual TLS client certificate/key go to every Node transport.
+ */
+export function createFabricTransport(config: FabricClientConfig): Transport {
+  if (config.createTransport) {
+    return config.createTransport({ baseUrl: config.gatewayUrl });
+  }
+
+  const isNode = typeof window === "undefined";
+  const baseUrl = config.gatewayUrl;
+  const tlsOptions = {
+    ca: config.tlsCaCert ? [config.tlsCaCert] : undefined,
+    cert: config.tlsClientCert,
+    key: config.tlsClientKey,
+  };
+
+  switch (config.protocol ?? "grpc-web") {
+    case "grpc-web":
+      return isNode
+        ? createNodeGrpcWebTransport({
+            baseUrl,
+            httpVersion: "1.1",
+            nodeOptions: tlsOptions,
+          })
+        : createBrowserGrpcWebTransport({ baseUrl });
+
+    case "grpc-web-text":
+      if (
+        isNode &&
+        (config.tlsCaCert || config.tlsClientCert || config.tlsClientKey)
+      ) {
+        throw new Error(
+          "grpc-web-text goes through fetch, which can't take a TLS CA or client certificate in Node.js. " +
+            "Use grpc-web or connect for those, or trust the CA process-wide with NODE_EXTRA_CA_CERTS.",
+        );
+      }
+      return createBrowserGrpcWebTransport({
+        baseUrl,
+        fetch: createGrpcWebTextFetch(),
+      });
+
+    case "connect":
+      return isNode
+        ? createNodeConnectTransport({
+            baseUrl,
+            httpVersion: "1.1",
+            nodeOptions: tlsOptions,
+          })
+        : createBrowserConnectTransport({ baseUrl });
+
+    case "grpc":
+      if (!isNode) {
+        throw new Error(
+          "The native gRPC transport needs HTTP/2 trailers and only works in Node.js. Use grpc-web in the browser.",
+        );
+      }
+      return createNodeGrpcTransport({ baseUrl, nodeOptions: tlsOptions });
+  }
+}
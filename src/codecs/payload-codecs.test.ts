@@ -0,0 +1,42 @@
+import { describe, it, expect } from "vitest";
+import { create } from "@bufbuild/protobuf";
+import {
+  autoCodec,
+  encodeChaincodeArg,
+  jsonCodec,
+  protobufCodec,
+  utf8Codec,
+} from "./payload-codecs";
+import { ChaincodeIDSchema } from "../generated_protos/peer/chaincode_pb";
+
+const bytesOf = (text: string) => new TextEncoder().encode(text);
+
+describe("payload codecs", () => {
+  it("should let utf8Codec keep a numeric-looking string as a string", () => {
+    expect(utf8Codec.decode(bytesOf("123"))).toBe("123");
+    expect(jsonCodec.decode(bytesOf("123"))).toBe(123);
+    expect(autoCodec.decode(bytesOf("123"))).toBe(123);
+  });
+
+  it("should decode an empty JSON response to null", () => {
+    expect(jsonCodec.decode(new Uint8Array())).toBeNull();
+  });
+
+  it("should round-trip protobuf messages through their schema", () => {
+    const codec = protobufCodec(ChaincodeIDSchema);
+    const message = create(ChaincodeIDSchema, { name: "basic", version: "1.0" });
+
+    const decoded = codec.decode(codec.encode(message));
+
+    expect(decoded.name).toBe("basic");
+    expect(decoded.version).toBe("1.0");
+  });
+
+  it("should send strings and bytes as they are and encode the rest with the codec", () => {
+    const bytes = new Uint8Array([1, 2, 3]);
+
+    expect(encodeChaincodeArg("asset1", jsonCodec)).toEqual(bytesOf("asset1"));
+    expect(encodeChaincodeArg(bytes, jsonCodec)).toBe(bytes);
+    expect(encodeChaincodeArg({ size: 5n }, jsonCodec)).toEqual(bytesOf('{"size":"5"}'));
+  });
+});
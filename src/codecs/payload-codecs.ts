@@ -0,0 +1,86 @@
+import {
+  fromBinary,
+  toBinary,
+  type DescMessage,
+  type MessageShape,
+} from "@bufbuild/protobuf";
+import type { ContractArg, PayloadCodec } from "../models";
+import { decodeChaincodePayload } from "../protobuf/parser";
+
+const textEncoder = new TextEncoder();
+const textDecoder = new TextDecoder();
+
+function stringifyJson(value: unknown): string {
+  return JSON.stringify(value, (_key, v) =>
+    typeof v === "bigint" ? v.toString() : v,
+  );
+}
+
+/**
+ * JSON in both directions. An empty response (a function that returns nothing) decodes to `null`.
+ * A chaincode returning the string `"123"` comes back as the number 123, which is exactly what JSON says.
+ * If that's not what you want, `utf8Codec` is right there.
+ */
+export const jsonCodec: PayloadCodec = {
+  encode: (value) => textEncoder.encode(stringifyJson(value)),
+  decode: (bytes) =>
+    bytes.length === 0 ? null : JSON.parse(textDecoder.decode(bytes)),
+};
+
+/** Plain UTF-8 text. No parsing, no surprises. */
+export const utf8Codec: PayloadCodec<string> = {
+  encode: (value) => textEncoder.encode(String(value)),
+  decode: (bytes) => textDecoder.decode(bytes),
+};
+
+/** The raw bytes, for when the chaincode speaks something we don't. */
+export const bytesCodec: PayloadCodec<Uint8Array> = {
+  encode: (value) => value,
+  decode: (bytes) => bytes,
+};
+
+/**
+ * Q: My chaincode speaks protobuf. Do I have to call `toBinary`/`fromBinary` myself?
+ * A: No. Hand us the generated `@bufbuild/protobuf` schema and we'll do it, both ways.
+ *
+ * ```ts
+ * const contract = network.getContract("basic", { codec: protobufCodec(AssetSchema) });
+ * ```
+ */
+export function protobufCodec<Desc extends DescMessage>(
+  schema: Desc,
+): PayloadCodec<MessageShape<Desc>> {
+  return {
+    encode: (value) => toBinary(schema, value),
+    decode: (bytes) => fromBinary(schema, bytes),
+  };
+}
+
+/**
+ * Q: Why is the default codec guessing?
+ * A: Because it always has, and changing what every existing call returns would be rude.
+ *    It tries JSON, then UTF-8, and gives up with a `(binary) 0x…` hex string. Arguments are sent as JSON.
+ *    If you know what your chaincode returns, pick the matching codec instead and skip the guesswork.
+ */
+export const autoCodec: PayloadCodec = {
+  encode: jsonCodec.encode,
+  decode: (bytes) => decodeChaincodePayload(bytes),
+};
+
+/**
+ * Strings and bytes are already what a chaincode expects, so they go as they are.
+ * Everything else (numbers, objects, protobuf messages...) goes through the codec.
+ */
+export function encodeChaincodeArg(
+  arg: ContractArg,
+  codec: PayloadCodec,
+): Uint8Array {
+  if (typeof arg === "string") {
+    return textEncoder.encode(arg);
+  }
+  // `isView` rather than `instanceof`: bytes made in another realm (a worker, jsdom...) still count.
+  if (ArrayBuffer.isView(arg)) {
+    return arg as Uint8Array;
+  }
+  return codec.encode(arg);
+}
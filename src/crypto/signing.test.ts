@@ -0,0 +1,43 @@
+import { describe, it, expect } from "vitest";
+import { normalizeFabricSignature } from "./signing";
+
+// The order of P-256, and a high S (above N/2) with its low-S twin N - S.
+const N = 0xffffffff00000000ffffffffffffffffbce6faada7179e84f3b9cac2fc632551n;
+const HIGH_S = N - 5n;
+const R = 0x1234n;
+
+function toBytes(value: bigint, length: number): Uint8Array {
+  return Uint8Array.from(Buffer.from(value.toString(16).padStart(length * 2, "0"), "hex"));
+}
+
+function derInteger(value: bigint): number[] {
+  let bytes = Array.from(toBytes(value, 32));
+  while (bytes.length > 1 && bytes[0] === 0 && bytes[1] < 0x80) bytes = bytes.slice(1);
+  if (bytes[0] >= 0x80) bytes = [0, ...bytes];
+  return [0x02, bytes.length, ...bytes];
+}
+
+function der(r: bigint, s: bigint): Uint8Array {
+  const body = [...derInteger(r), ...derInteger(s)];
+  return new Uint8Array([0x30, body.length, ...body]);
+}
+
+describe("normalizeFabricSignature", () => {
+  it("should flip a high-S DER signature to low S", () => {
+    expect(normalizeFabricSignature(der(R, HIGH_S))).toEqual(der(R, 5n));
+  });
+
+  it("should encode a raw R|S signature as low-S DER", () => {
+    const raw = new Uint8Array([...toBytes(R, 32), ...toBytes(HIGH_S, 32)]);
+
+    expect(normalizeFabricSignature(raw)).toEqual(der(R, 5n));
+  });
+
+  it("should leave a low-S DER signature as it is", () => {
+    expect(normalizeFabricSignature(der(R, 5n))).toEqual(der(R, 5n));
+  });
+
+  it("should reject bytes that are neither R|S nor DER", () => {
+    expect(() => normalizeFabricSignature(new Uint8Array([1, 2, 3]))).toThrow(/Invalid DER signature/);
+  });
+});
@@ -30,6 +30,52 @@ function rsToDer(rs: Uint8Array): Uint8Array {
   return new Uint8Array([0x30, encoded.length, ...encoded]);
 }
 
+/**
+ * The inverse of `rsToDer`: reads a DER `SEQUENCE { INTEGER r, INTEGER s }` back into a 64-byte `R|S`.
+ * Throws if the bytes aren't a P-256 ECDSA signature in that shape.
+ */
+function derToRs(der: Uint8Array): Uint8Array {
+  let offset = 0;
+  const readLength = (): number => {
+    const first = der[offset++];
+    if (first < 0x80) return first;
+    // Long form: the low bits say how many length bytes follow. A P-256 signature never needs more than one.
+    if (first !== 0x81) {
+      throw new Error("Invalid DER signature: unsupported length.");
+    }
+    return der[offset++];
+  };
+  const readInteger = (): Uint8Array => {
+    if (der[offset++] !== 0x02) {
+      throw new Error("Invalid DER signature: expected an INTEGER.");
+    }
+    const length = readLength();
+    let value = der.slice(offset, offset + length);
+    offset += length;
+    while (value.length > 1 && value[0] === 0) value = value.slice(1);
+    if (value.length === 0 || value.length > 32) {
+      throw new Error("Invalid DER signature: integer out of range.");
+    }
+    const padded = new Uint8Array(32);
+    padded.set(value, 32 - value.length);
+    return padded;
+  };
+
+  if (der[offset++] !== 0x30) {
+    throw new Error("Invalid DER signature: expected a SEQUENCE.");
+  }
+  const sequenceLength = readLength();
+  if (offset + sequenceLength !== der.length) {
+    throw new Error("Invalid DER signature: length mismatch.");
+  }
+  const r = readInteger();
+  const s = readInteger();
+  if (offset !== der.length) {
+    throw new Error("Invalid DER signature: trailing bytes.");
+  }
+  return new Uint8Array([...r, ...s]);
+}
+
 /**
  * Normaliza el componente S de una firma ECDSA para prevenir la maleabilidad.
  * Si S > N/2, se reemplaza por N-S.
@@ -65,7 +111,41 @@ export async function signFabricSignature(
   return rsToDer(lowSSignature);
 }
 
+/**
+ * Signs several payloads for Fabric at once. If the identity can sign in batches (`signBatch`), that's one
+ * round trip to the crypto worker for all of them; otherwise they're signed one after another.
+ * @param dataToSign The bytes that need signatures, in order.
+ * @param identity The active identity object.
+ */
+export async function signFabricSignatures(
+  dataToSign: Uint8Array[],
+  identity: AppIdentity,
+): Promise<Uint8Array[]> {
+  let rawSignatures: Uint8Array[];
+  if (identity.signBatch) {
+    rawSignatures = await identity.signBatch(dataToSign);
+  } else {
+    rawSignatures = [];
+    for (const data of dataToSign) {
+      rawSignatures.push(await identity.sign(data));
+    }
+  }
+  return rawSignatures.map((signature) =>
+    rsToDer(preventMalleability(signature)),
+  );
+}
 
+/**
+ * Turns a signature produced outside this library into the DER, low-S form Fabric expects.
+ * Both a 64-byte raw `R|S` signature (what WebCrypto and most HSMs return) and a DER one (Node's `crypto`,
+ * OpenSSL) are accepted. Either way a high S is flipped to low S, since peers reject the high-S half.
+ * Throws if the signature is neither.
+ * @param signature The signature over the digest of the bytes being signed.
+ */
+export function normalizeFabricSignature(signature: Uint8Array): Uint8Array {
+  const rs = signature.length === 64 ? signature : derToRs(signature);
+  return rsToDer(preventMalleability(rs));
+}
 
 /**
  * @deprecated Use signFabricSignature instead.
@@ -0,0 +1,76 @@
+import { describe, it, expect } from "vitest";
+import { Code, ConnectError } from "@connectrpc/connect";
+import { ErrorDetailSchema } from "../generated_protos/gateway/gateway_pb";
+import { TxValidationCode } from "../generated_protos/peer/transaction_pb";
+import { CommitError, EndorseError, TimeoutError, toGatewayError } from "./gateway-errors";
+import { tryCatch } from "../utils/try-catch";
+
+describe("toGatewayError", () => {
+  it("should keep the gRPC code, the txId and every ErrorDetail", () => {
+    const connectError = new ConnectError(
+      "failed to endorse transaction",
+      Code.Aborted,
+      undefined,
+      [
+        {
+          desc: ErrorDetailSchema,
+          value: {
+            address: "peer0.org1.example.com:7051",
+            mspId: "Org1MSP",
+            message: "chaincode response 500, asset1 does not exist",
+          },
+        },
+      ],
+    );
+
+    const error = toGatewayError(connectError, EndorseError, "a_mock_tx_id");
+
+    expect(error).toBeInstanceOf(EndorseError);
+    const endorseError = error as EndorseError;
+    expect(endorseError.name).toBe("EndorseError");
+    expect(endorseError.code).toBe(Code.Aborted);
+    expect(endorseError.txId).toBe("a_mock_tx_id");
+    expect(endorseError.details).toEqual([
+      {
+        address: "peer0.org1.example.com:7051",
+        mspId: "Org1MSP",
+        message: "chaincode response 500, asset1 does not exist",
+      },
+    ]);
+    expect(endorseError.message).toContain("asset1 does not exist");
+    expect(endorseError.cause).toBe(connectError);
+  });
+
+  it("should leave non-gRPC errors alone", () => {
+    const plainError = new Error("something else");
+    expect(toGatewayError(plainError, EndorseError)).toBe(plainError);
+  });
+});
+
+describe("TimeoutError", () => {
+  it("should name the phase that ran out of time", () => {
+    const cause = new ConnectError("deadline exceeded", Code.DeadlineExceeded);
+    const error = new TimeoutError("commitStatus", 5000, "a_mock_tx_id", cause);
+
+    expect(error.name).toBe("TimeoutError");
+    expect(error.phase).toBe("commitStatus");
+    expect(error.timeoutMs).toBe(5000);
+    expect(error.message).toBe("The commitStatus phase of transaction a_mock_tx_id timed out after 5000ms.");
+    expect(error.cause).toBe(cause);
+  });
+});
+
+describe("tryCatch with typed errors", () => {
+  it("should pass typed errors through the Result untouched", async () => {
+    const commitError = new CommitError("a_mock_tx_id", TxValidationCode.MVCC_READ_CONFLICT, 7n);
+
+    const result = await tryCatch(async () => {
+      throw commitError;
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toBe(commitError);
+    expect(result.error).toBeInstanceOf(CommitError);
+    expect((result.error as CommitError).code).toBe(TxValidationCode.MVCC_READ_CONFLICT);
+  });
+});
@@ -0,0 +1,208 @@
+import { Code, ConnectError } from "@connectrpc/connect";
+import { ErrorDetailSchema } from "../generated_protos/gateway/gateway_pb";
+import { TxValidationCode } from "../generated_protos/peer/transaction_pb";
+import { Status } from "../generated_protos/common/common_pb";
+import type {
+  TransactionAttempt,
+  TransactionPhase,
+  TransactionProgress,
+} from "../models";
+
+/**
+ * What a single peer or orderer had to say about a failed request.
+ * The Gateway attaches one of these for every node it talked to.
+ */
+export interface GatewayErrorDetail {
+  readonly address: string;
+  readonly mspId: string;
+  readonly message: string;
+}
+
+/**
+ * Q: Why a base class?
+ * A: So `tryCatch` can tell "an error we already took the time to type" apart from "some random throw".
+ *    Anything extending `FabricError` travels through the `Result` pattern untouched,
+ *    so you can `instanceof` it on the other side instead of matching on message text.
+ */
+export class FabricError extends Error {
+  constructor(message: string, options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = new.target.name;
+  }
+}
+
+export interface GatewayErrorOptions {
+  code: Code;
+  txId?: string;
+  details?: GatewayErrorDetail[];
+  cause?: unknown;
+}
+
+/**
+ * A gRPC call to the Gateway failed. `code` is the gRPC status code (as Connect's `Code` enum),
+ * `details` is the decoded list of `gateway.ErrorDetail` entries, one per node involved.
+ */
+export class GatewayError extends FabricError {
+  public readonly code: Code;
+  public readonly txId?: string;
+  public readonly details: GatewayErrorDetail[];
+
+  constructor(message: string, options: GatewayErrorOptions) {
+    super(message, { cause: options.cause });
+    this.code = options.code;
+    this.txId = options.txId;
+    this.details = options.details ?? [];
+  }
+}
+
+/** The Gateway could not get the proposal endorsed. */
+export class EndorseError extends GatewayError {}
+
+/** The Gateway could not hand the endorsed transaction to the orderer. */
+export class SubmitError extends GatewayError {}
+
+/** We could not find out whether the transaction was committed. */
+export class CommitStatusError extends GatewayError {}
+
+/**
+ * The transaction made it into a block, but the peers marked it as invalid
+ * (MVCC conflict, endorsement policy failure...). `code` tells you which one.
+ * After retries, `attempts` lists every one of them, this last one included.
+ */
+export class CommitError extends FabricError {
+  public readonly txId: string;
+  public readonly code: TxValidationCode;
+  public readonly blockNumber?: bigint;
+  public readonly attempts: TransactionAttempt[];
+
+  constructor(
+    txId: string,
+    code: TxValidationCode,
+    blockNumber?: bigint,
+    attempts?: TransactionAttempt[],
+  ) {
+    super(
+      `Transaction ${txId} failed to commit with status: ${
+        TxValidationCode[code]
+      } (${code})`,
+    );
+    this.txId = txId;
+    this.code = code;
+    this.blockNumber = blockNumber;
+    this.attempts =
+      attempts ??
+      (blockNumber === undefined ? [] : [{ txId, code, blockNumber }]);
+  }
+}
+
+/**
+ * A phase of the transaction flow ran out of time. `phase` tells you which one, so you know
+ * whether the transaction might still go through (a `commitStatus` timeout after a successful
+ * submit means it's probably on its way) or never left (an `endorse` timeout).
+ */
+export class TimeoutError extends FabricError {
+  public readonly phase: TransactionPhase;
+  public readonly timeoutMs: number;
+  public readonly txId?: string;
+
+  constructor(
+    phase: TransactionPhase,
+    timeoutMs: number,
+    txId?: string,
+    cause?: unknown,
+  ) {
+    super(
+      `The ${phase} phase${txId ? ` of transaction ${txId}` : ""} timed out after ${timeoutMs}ms.`,
+      { cause },
+    );
+    this.phase = phase;
+    this.timeoutMs = timeoutMs;
+    this.txId = txId;
+  }
+}
+
+/**
+ * The peer's Deliver service ended a block stream with something other than `SUCCESS`.
+ * `status` is the `common.Status` it sent, e.g. `NOT_FOUND` for a block that doesn't exist yet
+ * when you asked it to fail instead of waiting, or `FORBIDDEN` if you're not allowed on the channel.
+ */
+export class DeliverError extends FabricError {
+  public readonly status: Status;
+
+  constructor(channelName: string, status: Status) {
+    super(
+      `The block stream for channel ${channelName} ended with status: ${
+        Status[status] ?? "UNKNOWN"
+      } (${status})`,
+    );
+    this.status = status;
+  }
+}
+
+/**
+ * The connection behind an event stream failed or closed before the stream was done.
+ * This is the kind of failure a `ReconnectPolicy` recovers from.
+ */
+export class StreamDisconnectedError extends FabricError {}
+
+/**
+ * Your `onProgress` threw, and the call stopped there. `progress` is the update it threw on, so you know how far
+ * the transaction got: after `submitted` it may well still be committed. Your own error is the `cause`.
+ */
+export class ProgressListenerError extends FabricError {
+  public readonly progress: TransactionProgress;
+
+  constructor(progress: TransactionProgress, cause: unknown) {
+    super(
+      `onProgress threw on the ${progress.stage} update${
+        progress.txId ? ` of transaction ${progress.txId}` : ""
+      }: ${cause instanceof Error ? cause.message : String(cause)}`,
+      { cause },
+    );
+    this.progress = progress;
+  }
+}
+
+export type GatewayErrorClass = new (
+  message: string,
+  options: GatewayErrorOptions,
+) => GatewayError;
+
+/**
+ * Q: What does this do with a `ConnectError`?
+ * A: It opens the box. The gRPC status code, the raw message and every `gateway.ErrorDetail`
+ *    the Gateway packed in are pulled out and put into the typed error class you ask for.
+ *    Anything that isn't a `ConnectError` (or is already one of ours) is returned as it came.
+ */
+export function toGatewayError(
+  error: unknown,
+  ErrorClass: GatewayErrorClass,
+  txId?: string,
+): unknown {
+  if (!(error instanceof ConnectError)) {
+    return error;
+  }
+
+  let details: GatewayErrorDetail[] = [];
+  try {
+    details = error
+      .findDetails(ErrorDetailSchema)
+      .map(({ address, mspId, message }) => ({ address, mspId, message }));
+  } catch {
+    // Details we can't decode are not worth losing the original error over.
+  }
+
+  const message =
+    details.length > 0
+      ? `${error.rawMessage}\n${details
+          .map((d) => `  - ${d.address} (${d.mspId}): ${d.message}`)
+          .join("\n")}`
+      : error.rawMessage;
+
+  return new ErrorClass(message, {
+    code: error.code,
+    txId,
+    details,
+    cause: error,
+  });
+}
@@ -0,0 +1,38 @@
+import { describe, it, expect } from "vitest";
+import { KeyValueCheckpointer } from "./checkpointers";
+import type { IKeyValueStore } from "../identity/storage/ikeystore";
+
+function createMemoryStore(): IKeyValueStore & { data: Map<string, unknown> } {
+  const data = new Map<string, unknown>();
+  return {
+    data,
+    get: async <T>(key: string) => data.get(key) as T | undefined,
+    set: async (key, value) => void data.set(key, value),
+    del: async (key) => void data.delete(key),
+    keys: async () => Array.from(data.keys()),
+  };
+}
+
+describe("KeyValueCheckpointer", () => {
+  it("should have no checkpoint until something was processed", async () => {
+    const checkpointer = new KeyValueCheckpointer(createMemoryStore());
+    expect(await checkpointer.getCheckpoint()).toBeUndefined();
+  });
+
+  it("should resume after a fully processed block from the next one", async () => {
+    const store = createMemoryStore();
+    await new KeyValueCheckpointer(store, "asset-events").checkpointBlock(41n);
+
+    const resumed = new KeyValueCheckpointer(store, "asset-events");
+
+    expect(await resumed.getCheckpoint()).toEqual({ blockNumber: 42n, transactionId: undefined });
+    expect(store.data.get("asset-events")).toEqual({ blockNumber: "42" });
+  });
+
+  it("should resume within a block after the last processed transaction", async () => {
+    const checkpointer = new KeyValueCheckpointer(createMemoryStore());
+    await checkpointer.checkpointTransaction(42n, "a_mock_tx_id");
+
+    expect(await checkpointer.getCheckpoint()).toEqual({ blockNumber: 42n, transactionId: "a_mock_tx_id" });
+  });
+});
@@ -0,0 +1,88 @@
+import type { Checkpoint, Checkpointer } from "../models";
+import type { IKeyValueStore } from "../identity/storage/ikeystore";
+import { FileStore } from "../identity/storage/filestore";
+import { createStore, del, get, keys, set, type UseStore } from "idb-keyval";
+
+const DEFAULT_CHECKPOINT_KEY = "checkpoint";
+const CHECKPOINT_DB_NAME = "hf-web-client-checkpoints";
+
+/** How a checkpoint is stored: a bigint doesn't survive JSON (or every IndexedDB polyfill), a string does. */
+interface StoredCheckpoint {
+  blockNumber: string;
+  transactionId?: string;
+}
+
+/**
+ * Q: Why build on `IKeyValueStore`?
+ * A: It's the storage abstraction the identity engines already use, with a file backend for Node and an
+ *    IndexedDB one for the browser. Any other store you have lying around works too.
+ *    Use a different `key` per listener if several of them share a store.
+ */
+export class KeyValueCheckpointer implements Checkpointer {
+  constructor(
+    private readonly store: IKeyValueStore,
+    private readonly key: string = DEFAULT_CHECKPOINT_KEY,
+  ) {}
+
+  public async getCheckpoint(): Promise<Checkpoint | undefined> {
+    const stored = await this.store.get<StoredCheckpoint>(this.key);
+    if (!stored) {
+      return undefined;
+    }
+    return {
+      blockNumber: BigInt(stored.blockNumber),
+      transactionId: stored.transactionId,
+    };
+  }
+
+  public async checkpointBlock(blockNumber: bigint): Promise<void> {
+    await this.store.set<StoredCheckpoint>(this.key, {
+      blockNumber: (blockNumber + 1n).toString(),
+    });
+  }
+
+  public async checkpointTransaction(
+    blockNumber: bigint,
+    transactionId: string,
+  ): Promise<void> {
+    await this.store.set<StoredCheckpoint>(this.key, {
+      blockNumber: blockNumber.toString(),
+      transactionId,
+    });
+  }
+}
+
+/** Keeps checkpoints in a JSON file. Node only. */
+export class FileCheckpointer extends KeyValueCheckpointer {
+  constructor(filePath: string, key?: string) {
+    super(new FileStore(filePath), key);
+  }
+}
+
+/** An idb-keyval database for checkpoints alone, so they never mix with the identity store's data. */
+class IndexedDBCheckpointStore implements IKeyValueStore {
+  private readonly store: UseStore = createStore(CHECKPOINT_DB_NAME, "keyval");
+
+  public get<T>(key: string): Promise<T | undefined> {
+    return get<T>(key, this.store);
+  }
+
+  public set<T>(key: string, value: T): Promise<void> {
+    return set(key, value, this.store);
+  }
+
+  public del(key: string): Promise<void> {
+    return del(key, this.store);
+  }
+
+  public keys(): Promise<string[]> {
+    return keys<string>(this.store);
+  }
+}
+
+/** Keeps checkpoints in IndexedDB, in a database of their own. Browser only. */
+export class IndexedDBCheckpointer extends KeyValueCheckpointer {
+  constructor(key?: string) {
+    super(new IndexedDBCheckpointStore(), key);
+  }
+}
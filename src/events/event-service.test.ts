@@ -0,0 +1,173 @@
+import { describe, it, expect } from "vitest";
+import { create, fromBinary, toBinary } from "@bufbuild/protobuf";
+import { Code, ConnectError, createRouterTransport } from "@connectrpc/connect";
+import { EventService } from "./event-service";
+import { Deliver, DeliverResponseSchema } from "../generated_protos/peer/events_pb";
+import { Status } from "../generated_protos/common/common_pb";
+import {
+  ChaincodeEventsRequestSchema,
+  ChaincodeEventsResponseSchema,
+  Gateway,
+} from "../generated_protos/gateway/gateway_pb";
+import { BlockchainInfoSchema } from "../generated_protos/common/ledger_pb";
+import type { AppIdentity, Checkpointer } from "../models";
+
+const identity: AppIdentity = {
+  cert: "-----BEGIN CERTIFICATE-----\nclient\n-----END CERTIFICATE-----\n",
+  sign: async () => new Uint8Array(64).fill(1),
+};
+
+describe("EventService", () => {
+  it("should stream block events through the Gateway transport when there's no wsUrl", async () => {
+    const transport = createRouterTransport(({ service }) => {
+      service(Deliver, {
+        async *deliverFiltered(requests) {
+          for await (const _request of requests) {
+            for (const number of [3n, 4n]) {
+              yield create(DeliverResponseSchema, {
+                Type: { case: "filteredBlock", value: { channelId: "mychannel", number } },
+              });
+            }
+            yield create(DeliverResponseSchema, { Type: { case: "status", value: Status.SUCCESS } });
+          }
+        },
+      });
+    });
+    const eventService = new EventService({ gatewayUrl: "https://gateway.example.com" }, transport);
+
+    const blockNumbers: bigint[] = [];
+    for await (const block of eventService.listenToBlockEvents(
+      {
+        mspId: "Org1MSP",
+        channelName: "mychannel",
+        targetPeer: "peer0.org1.example.com:7051",
+        targetHostname: "peer0.org1.example.com",
+        startBlock: 3,
+        stopBlock: 4,
+      },
+      identity,
+      new AbortController().signal,
+    )) {
+      blockNumbers.push(block.number);
+    }
+
+    expect(blockNumbers).toEqual([3n, 4n]);
+  });
+
+  it("should fail instead of hanging when the deliver service sends the wrong kind of block", async () => {
+    const transport = createRouterTransport(({ service }) => {
+      service(Deliver, {
+        async *deliver(requests) {
+          for await (const _request of requests) {
+            yield create(DeliverResponseSchema, {
+              Type: { case: "filteredBlock", value: { channelId: "mychannel", number: 3n } },
+            });
+          }
+        },
+      });
+    });
+    const eventService = new EventService({ gatewayUrl: "https://gateway.example.com" }, transport);
+
+    const blocks = eventService.listenToFullBlocks(
+      { mspId: "Org1MSP", channelName: "mychannel" },
+      identity,
+      new AbortController().signal,
+    );
+
+    await expect(blocks.next()).rejects.toThrow("Expected block responses from the deliver service, got filteredBlock.");
+  });
+
+  it("should ask for the target peer only when the blocks go through the WebSocket proxy", async () => {
+    const eventService = new EventService({
+      gatewayUrl: "https://gateway.example.com",
+      wsUrl: "wss://proxy.example.com/deliver",
+    });
+
+    const blocks = eventService.listenToBlockEvents(
+      { mspId: "Org1MSP", channelName: "mychannel" },
+      identity,
+      new AbortController().signal,
+    );
+
+    await expect(blocks.next()).rejects.toThrow("require `targetPeer` and `targetHostname`");
+  });
+
+  it("should hand a block over one transaction at a time and checkpoint each of them", async () => {
+    const transport = createRouterTransport(({ service }) => {
+      service(Gateway, {
+        async *chaincodeEvents() {
+          yield create(ChaincodeEventsResponseSchema, {
+            blockNumber: 7n,
+            events: [
+              { txId: "tx1", eventName: "Created" },
+              { txId: "tx1", eventName: "Transferred" },
+              { txId: "tx2", eventName: "Created" },
+            ],
+          });
+        },
+      });
+    });
+    const eventService = new EventService({ gatewayUrl: "https://gateway.example.com" }, transport);
+    const log: string[] = [];
+    const checkpointer: Checkpointer = {
+      getCheckpoint: async () => undefined,
+      checkpointBlock: async (blockNumber) => void log.push(`block ${blockNumber}`),
+      checkpointTransaction: async (blockNumber, txId) => void log.push(`tx ${blockNumber} ${txId}`),
+    };
+
+    for await (const response of eventService.listenToChaincodeEvents(
+      { mspId: "Org1MSP", channelName: "mychannel", chaincodeName: "basic", checkpointer },
+      identity,
+      new AbortController().signal,
+    )) {
+      log.push(`got ${response.blockNumber} ${response.events.map((event) => event.eventName).join(",")}`);
+    }
+
+    expect(log).toEqual([
+      "got 7 Created,Transferred",
+      "tx 7 tx1",
+      "got 7 Created",
+      "tx 7 tx2",
+      "block 7",
+    ]);
+  });
+
+  it("should reconnect from the chain height it started at when the stream drops before the first event", async () => {
+    const startBlocks: (bigint | undefined)[] = [];
+    const transport = createRouterTransport(({ service }) => {
+      service(Gateway, {
+        async evaluate() {
+          const payload = toBinary(BlockchainInfoSchema, create(BlockchainInfoSchema, { height: 10n }));
+          return { result: { status: 200, payload } };
+        },
+        async *chaincodeEvents(signedRequest) {
+          const request = fromBinary(ChaincodeEventsRequestSchema, signedRequest.request);
+          const position = request.startPosition?.Type;
+          startBlocks.push(position?.case === "specified" ? position.value.number : undefined);
+          if (startBlocks.length === 1) {
+            throw new ConnectError("connection reset", Code.Unavailable);
+          }
+          yield create(ChaincodeEventsResponseSchema, { blockNumber: 10n, events: [{ txId: "tx1" }] });
+        },
+      });
+    });
+    const eventService = new EventService({ gatewayUrl: "https://gateway.example.com" }, transport);
+
+    const blockNumbers: bigint[] = [];
+    for await (const response of eventService.listenToChaincodeEvents(
+      {
+        mspId: "Org1MSP",
+        channelName: "mychannel",
+        chaincodeName: "basic",
+        reconnect: { initialDelayMs: 0, maxAttempts: 1 },
+      },
+      identity,
+      new AbortController().signal,
+    )) {
+      blockNumbers.push(response.blockNumber);
+    }
+
+    expect(startBlocks).toEqual([10n, 10n]);
+    expect(blockNumbers).toEqual([10n]);
+  });
+});
@@ -1,26 +1,73 @@
-import { Client, createClient } from "@connectrpc/connect";
+import {
+  CallOptions,
+  Client,
+  createClient,
+  Transport,
+} from "@connectrpc/connect";
+import type { DescService } from "@bufbuild/protobuf";
 import {
   ChaincodeEventsRequestSchema,
   ChaincodeEventsResponse,
+  ChaincodeEventsResponseSchema,
+  EvaluateRequestSchema,
   Gateway,
   SignedChaincodeEventsRequest,
   SignedChaincodeEventsRequestSchema,
 } from "../generated_protos/gateway/gateway_pb";
-import { DeliverResponseSchema } from "../generated_protos/peer/events_pb";
-import { createGrpcWebTransport } from "@connectrpc/connect-web";
+import {
+  Deliver,
+  DeliverResponseSchema,
+  type DeliverResponse,
+} from "../generated_protos/peer/events_pb";
+import {
+  SeekPositionSchema,
+  SeekSpecifiedSchema,
+} from "../generated_protos/orderer/ab_pb";
 import {
   AppIdentity,
+  BlockEventFilter,
   BlockEventParams,
+  ChaincodeEventFilter,
   ChaincodeEventParams,
+  DecodedBlock,
+  DecodedBlockAndPrivateData,
   EventCallbacks,
   FabricClientConfig,
   FilteredBlock,
+  PayloadCodec,
+  ReconnectPolicy,
+  SharedBlockEventParams,
+  SharedChaincodeEventParams,
 } from "../models";
 import { create, fromBinary, toBinary } from "@bufbuild/protobuf";
-import { EnvelopeSchema } from "../generated_protos/common/common_pb";
+import {
+  EnvelopeSchema,
+  Status,
+  type Envelope,
+} from "../generated_protos/common/common_pb";
 import { signFabricSignature } from "../crypto/signing";
 import { createSignedDeliverRequest } from "../protobuf/deliver-builder";
-import { createSerializedIdentityBytes } from "../protobuf";
+import { SignedProposalSchema } from "../generated_protos/peer/proposal_pb";
+import {
+  buildProposalPayload,
+  computeTlsCertHash,
+  createSerializedIdentityBytes,
+  decodeBlock,
+  decodeBlockAndPrivateData,
+  decodeChainInfo,
+  generateTransactionId,
+  parseEvaluateResponse,
+} from "../protobuf";
+import { autoCodec, bytesCodec } from "../codecs/payload-codecs";
+import { createFabricTransport } from "../client/transports";
+import { runWithInterceptors } from "../client/interceptors";
+import { DeliverError, FabricError, StreamDisconnectedError } from "../errors";
+import { withReconnect } from "./reconnect";
+import {
+  selectBlockTransactions,
+  selectChaincodeEvents,
+  SubscriptionManager,
+} from "./subscriptions";
 
 /**
  * Q: So, what's the deal with this `consumeAsyncGenerator` function?
@@ -66,19 +113,114 @@ async function getWebSocketClass() {
   }
 }
 
+/** The peer's three deliver services: the method names of `protos.Deliver`, also sent as the `service` query parameter over WebSocket. */
+type DeliverService = "deliverFiltered" | "deliver" | "deliverWithPrivateData";
+
+/** A deliver response that carries a block, whichever kind it is. */
+type DeliveredBlock = Exclude<
+  DeliverResponse["Type"],
+  { case: "status" | undefined }
+>;
+
+/** The kind of block each deliver service sends. */
+const DELIVERED_CASE: Record<DeliverService, DeliveredBlock["case"]> = {
+  deliverFiltered: "filteredBlock",
+  deliver: "block",
+  deliverWithPrivateData: "blockAndPrivateData",
+};
+
+/**
+ * Sanity limits for one WebSocket message. Filtered blocks are small; full blocks are bounded by the
+ * orderer's `AbsoluteMaxBytes` (99MB by default), and private data comes on top of that.
+ */
+const MAX_DELIVER_MESSAGE_BYTES: Record<DeliverService, number> = {
+  deliverFiltered: 10 * 1024 * 1024,
+  deliver: 100 * 1024 * 1024,
+  deliverWithPrivateData: 200 * 1024 * 1024,
+};
+
+/** The peer's Deliver service, with every method called as a server stream. See `deliverOverGateway`. */
+type DeliverClient = Record<
+  DeliverService,
+  (request: Envelope, options?: CallOptions) => AsyncIterable<DeliverResponse>
+>;
+
+function createDeliverClient(transport: Transport): DeliverClient {
+  const serverStreamingDeliver = {
+    ...Deliver,
+    methods: Deliver.methods.map((method) => ({
+      ...method,
+      methodKind: "server_streaming" as const,
+    })),
+  };
+  return createClient(
+    serverStreamingDeliver as DescService,
+    transport,
+  ) as unknown as DeliverClient;
+}
+
+/** Shared streams have many people depending on them, so they keep reconnecting for as long as anyone listens. */
+const SHARED_STREAM_RECONNECT: ReconnectPolicy = { jitter: true };
+
+function deliveredBlockNumber(response: DeliveredBlock): bigint {
+  switch (response.case) {
+    case "filteredBlock":
+      return response.value.number;
+    case "block":
+      return response.value.header?.number ?? 0n;
+    case "blockAndPrivateData":
+      return response.value.block?.header?.number ?? 0n;
+  }
+}
+
+/** Where a chaincode event stream starts: no `startBlock` means the next block committed. */
+interface StartPosition {
+  startBlock?: bigint;
+  afterTransactionId?: string;
+}
+
+/** A block's chaincode events, one response per transaction, in the order they came. */
+function splitByTransaction(
+  response: ChaincodeEventsResponse,
+): ChaincodeEventsResponse[] {
+  const transactions = new Map<string, ChaincodeEventsResponse["events"]>();
+  for (const event of response.events) {
+    const events = transactions.get(event.txId) ?? [];
+    events.push(event);
+    transactions.set(event.txId, events);
+  }
+  return [...transactions.values()].map((events) =>
+    create(ChaincodeEventsResponseSchema, {
+      blockNumber: response.blockNumber,
+      events,
+    }),
+  );
+}
+
 export class EventService {
   private readonly gatewayClient: Client<typeof Gateway>;
-  private readonly wsBaseUrl: string;
+  private readonly deliverClient: DeliverClient;
+  private readonly deliverTransport: "websocket" | "gateway";
+  private readonly config: FabricClientConfig;
+  private readonly tlsCertHash?: Uint8Array;
+  private readonly codec: PayloadCodec;
+  private readonly subscriptions = new SubscriptionManager();
 
-  constructor(config: FabricClientConfig) {
-    if (!config.wsUrl) {
-      throw new Error(
-        "EventService requires a `wsUrl` in the client configuration.",
-      );
-    }
-    const transport = createGrpcWebTransport({ baseUrl: config.gatewayUrl });
-    this.gatewayClient = createClient(Gateway, transport);
-    this.wsBaseUrl = config.wsUrl;
+  /**
+   * @param transport The Connect transport for the chaincode event stream and gateway block streams. Pass the one
+   *                  your `FabricClient` already has; if you leave it out, one is built from the config the same way.
+   */
+  constructor(config: FabricClientConfig, transport?: Transport) {
+    const connectTransport = transport ?? createFabricTransport(config);
+    this.gatewayClient = createClient(Gateway, connectTransport);
+    this.deliverClient = createDeliverClient(connectTransport);
+    this.deliverTransport =
+      config.deliverTransport ?? (config.wsUrl ? "websocket" : "gateway");
+    this.config = config;
+    this.codec = config.codec ?? autoCodec;
+    this.tlsCertHash = config.tlsClientCert
+      ? computeTlsCertHash(config.tlsClientCert)
+      : undefined;
   }
 
   /**
@@ -87,30 +229,57 @@ export class EventService {
    *    which is a fancy way of saying "a stream of data that you can loop over as it arrives".
    *    It connects to the Fabric Gateway and says, "tell me every time chaincode 'X' does something interesting."
    *    For a simpler, callback-based version, see `onChaincodeEvent`.
+   *
+   * Q: What happens to the events I missed while the page was closed?
+   * A: Pass a `startBlock` (and maybe an `afterTransactionId`) to go back and get them, or better, a `checkpointer`.
+   *    With a checkpointer we start where the last listener stopped, and hand each block over one transaction
+   *    at a time: a transaction is recorded as done once you've processed it, i.e. when you ask for the next one,
+   *    and the block once its last transaction is. Only the transaction you were still working on comes again.
+   *
+   * Q: And if the connection drops while I'm listening?
+   * A: Without a `reconnect` policy, the stream fails. With one, it reconnects (with backoff) and carries on
+   *    from the block after the last one you got. `onConnectionStateChange` tells you how that's going.
+   *    If it drops before the first event, it starts over where the first connection did. For "the next block"
+   *    that means the chain's height when we first connected, which we ask `qscc` for.
    */
   public async *listenToChaincodeEvents(
     params: ChaincodeEventParams,
     identity: AppIdentity,
     signal: AbortSignal,
   ): AsyncGenerator<ChaincodeEventsResponse> {
+    // Where a new connection has to pick up: where the first one started, until an event moves it along.
+    let position: StartPosition | undefined;
     try {
-      const signedRequest = await this.createSignedChaincodeEventsRequest(
-        params,
-        identity,
+      const responses = withReconnect(params, signal, (onOpen) =>
+        this.openChaincodeEventStream(
+          params,
+          identity,
+          signal,
+          async () =>
+            (position ??= await this.getStartPosition(
+              params,
+              identity,
+              signal,
+            )),
+          onOpen,
+        ),
       );
-
-      const stream = this.gatewayClient.chaincodeEvents(signedRequest, {
-        signal,
-      });
-
-      for await (const response of stream) {
-        // Validate response type and structure
-        if (!response || typeof response !== "object") {
-          console.warn("[EventService] Ignoring invalid chaincode event response.");
+      for await (const response of responses) {
+        position = { startBlock: response.blockNumber + 1n };
+        const checkpointer = params.checkpointer;
+        if (!checkpointer) {
+          yield response;
           continue;
         }
-        // Optionally, add more structure checks here if needed
-        yield response;
+        for (const transaction of splitByTransaction(response)) {
+          yield transaction;
+          // We only get here once the consumer asks for more, so this transaction has been dealt with.
+          await checkpointer.checkpointTransaction(
+            response.blockNumber,
+            transaction.events[0].txId,
+          );
+        }
+        await checkpointer.checkpointBlock(response.blockNumber);
       }
     } catch (error) {
       if (
@@ -135,91 +304,78 @@ export class EventService {
    * A: This one is for block events. Instead of talking to the Gateway's gRPC-Web endpoint,
    *    it opens a direct WebSocket connection to a peer's "deliver" service.
    *    The deliver service is the original, canonical way to get blocks from a peer.
-   *    This gives us a raw, unfiltered stream of every block as it's committed to the ledger.
-   *    It's lower-level and more direct than the Gateway's chaincode event stream.
+   *    This gives us a stream of filtered blocks (transaction IDs, validation codes and chaincode events)
+   *    as they're committed to the ledger. For the whole block, see `listenToFullBlocks`.
+   *
+   * Q: Can I replay history with it?
+   * A: Yes. Give it a `startBlock` (a number, or `"oldest"`) and a `stopBlock`, and the generator finishes
+   *    on its own once the stop block has been yielded. Add `seekBehavior: "failIfNotReady"` to get a
+   *    `DeliverError` instead of waiting if the range goes past the end of the chain.
+   *
+   * Q: What if the WebSocket closes on me?
+   * A: Same as for chaincode events: give it a `reconnect` policy and it picks up at the next block,
+   *    for this and the full block listeners alike.
    */
   public async *listenToBlockEvents(
     params: BlockEventParams,
     identity: AppIdentity,
     signal: AbortSignal,
   ): AsyncGenerator<FilteredBlock> {
-    const wsUrl = new URL(this.wsBaseUrl);
-    wsUrl.searchParams.append("target", params.targetPeer);
-    wsUrl.searchParams.append("hostname", params.targetHostname);
-
-    const signedRequestEnvelope = await createSignedDeliverRequest({
-      ...params,
+    for await (const response of this.streamDeliver(
+      "deliverFiltered",
+      params,
       identity,
-    });
-    const requestBytes = toBinary(EnvelopeSchema, signedRequestEnvelope);
-
-    const WS = await getWebSocketClass();
-    const socket: any = new WS(wsUrl.toString());
-    socket.binaryType = "arraybuffer";
-
-    try {
-      await this.waitForSocketOpen(socket, signal);
-      socket.send(requestBytes);
-
-      while (!signal.aborted) {
-        const message = await this.waitForSocketMessage(socket, signal);
-
-        // Validate message type and size
-        if (
-          !message.data ||
-          !(message.data instanceof ArrayBuffer) ||
-          message.data.byteLength === 0 ||
-          message.data.byteLength > 10 * 1024 * 1024 // 10MB sanity limit
-        ) {
-          console.warn("[EventService] Ignoring invalid or oversized WebSocket message.");
-          continue;
-        }
-
-        let deliverResponse;
-        try {
-          deliverResponse = fromBinary(
-            DeliverResponseSchema,
-            new Uint8Array(message.data)
-          );
-        } catch (err) {
-          console.warn("[EventService] Failed to parse WebSocket message:", err);
-          continue;
-        }
-
-        if (deliverResponse && typeof deliverResponse.Type === "object" && "case" in deliverResponse.Type) {
-          if (deliverResponse.Type.case === "filteredBlock") {
-            yield deliverResponse.Type.value;
-          } else if (deliverResponse.Type.case === "status") {
-            console.warn(
-              "[EventService] Status message received from peer:",
-              deliverResponse.Type.value,
-            );
-          } else {
-            console.warn("[EventService] Unknown message type received:", deliverResponse.Type.case);
-          }
-        } else {
-          console.warn("[EventService] Malformed deliverResponse received.");
-        }
+      signal,
+    )) {
+      if (response.case === "filteredBlock") {
+        yield response.value;
       }
-    } catch (error) {
-      if (
-        signal.aborted ||
-        (error instanceof Error && error.name === "AbortError")
-      ) {
-        // Expected on cancellation.
-      } else {
-        console.error(
-          `[EventService] Error in block event stream for ${params.channelName}:`,
-          error,
-        );
-        throw error;
+    }
+  }
+
+  /**
+   * Q: What if I need everything in the block, not just the filtered summary?
+   * A: This asks the peer's `Deliver` service instead, over the same WebSocket path, and hands you each block
+   *    decoded by `decodeBlock`: every transaction with its arguments, read/write sets, endorsements and
+   *    validation code. Chaincode values go through the client's codec. Your identity needs read access to
+   *    the channel's blocks, which is more than filtered blocks ask for.
+   */
+  public async *listenToFullBlocks(
+    params: BlockEventParams,
+    identity: AppIdentity,
+    signal: AbortSignal,
+  ): AsyncGenerator<DecodedBlock> {
+    for await (const response of this.streamDeliver(
+      "deliver",
+      params,
+      identity,
+      signal,
+    )) {
+      if (response.case === "block") {
+        yield decodeBlock(response.value, this.codec);
       }
-    } finally {
-      if (
-        socket.readyState === WS.OPEN ||
-        socket.readyState === WS.CONNECTING
-      ) {
-        socket.close(1000, "Stream finished by client");
+    }
+  }
+
+  /**
+   * Q: And the private data?
+   * A: `DeliverWithPrivateData` sends each full block along with the cleartext private data the peer holds
+   *    for it, for the collections your organization is a member of. You get both decoded, the private data
+   *    keyed by the index of its transaction in the block.
+   */
+  public async *listenToBlockAndPrivateData(
+    params: BlockEventParams,
+    identity: AppIdentity,
+    signal: AbortSignal,
+  ): AsyncGenerator<DecodedBlockAndPrivateData> {
+    for await (const response of this.streamDeliver(
+      "deliverWithPrivateData",
+      params,
+      identity,
+      signal,
+    )) {
+      if (response.case === "blockAndPrivateData") {
+        yield decodeBlockAndPrivateData(response.value, this.codec);
       }
     }
   }
@@ -284,11 +440,457 @@ export class EventService {
     };
   }
 
+  /** The callback-friendly version of `listenToFullBlocks`. */
+  public onFullBlock(
+    params: BlockEventParams,
+    identity: AppIdentity,
+    callbacks: EventCallbacks<DecodedBlock>,
+  ): () => void {
+    const abortController = new AbortController();
+
+    const generator = this.listenToFullBlocks(
+      params,
+      identity,
+      abortController.signal,
+    );
+
+    consumeAsyncGenerator(generator, callbacks, abortController.signal);
+
+    return () => {
+      if (!abortController.signal.aborted) {
+        abortController.abort();
+      }
+    };
+  }
+
+  /** The callback-friendly version of `listenToBlockAndPrivateData`. */
+  public onBlockAndPrivateData(
+    params: BlockEventParams,
+    identity: AppIdentity,
+    callbacks: EventCallbacks<DecodedBlockAndPrivateData>,
+  ): () => void {
+    const abortController = new AbortController();
+
+    const generator = this.listenToBlockAndPrivateData(
+      params,
+      identity,
+      abortController.signal,
+    );
+
+    consumeAsyncGenerator(generator, callbacks, abortController.signal);
+
+    return () => {
+      if (!abortController.signal.aborted) {
+        abortController.abort();
+      }
+    };
+  }
+
+  // --- Shared Subscriptions ---
+
+  /**
+   * Q: Ten components watching the same chaincode. Do I need ten streams?
+   * A: No. All subscriptions to the same channel and chaincode (for the same MSP) share one stream, opened
+   *    with the first subscriber's identity and closed when the last one unsubscribes. Each subscriber gets
+   *    only what matches its `filter`. Shared streams start at the next block and reconnect on their own.
+   *
+   * @returns The unsubscribe function.
+   */
+  public subscribeToChaincodeEvents(
+    params: SharedChaincodeEventParams,
+    identity: AppIdentity,
+    callbacks: EventCallbacks<ChaincodeEventsResponse>,
+    filter: ChaincodeEventFilter = {},
+  ): () => void {
+    return this.subscriptions.subscribe(
+      ["chaincode", params.mspId, params.channelName, params.chaincodeName].join("|"),
+      (signal) =>
+        this.listenToChaincodeEvents(
+          { ...params, reconnect: SHARED_STREAM_RECONNECT },
+          identity,
+          signal,
+        ),
+      (response) => selectChaincodeEvents(response, filter),
+      callbacks,
+    );
+  }
+
+  /**
+   * The same for filtered block events: one stream per channel and peer (for the same MSP).
+   * A subscriber with a `filter` gets each block with just the matching transactions.
+   *
+   * @returns The unsubscribe function.
+   */
+  public subscribeToBlockEvents(
+    params: SharedBlockEventParams,
+    identity: AppIdentity,
+    callbacks: EventCallbacks<FilteredBlock>,
+    filter: BlockEventFilter = {},
+  ): () => void {
+    return this.subscriptions.subscribe(
+      ["block", params.mspId, params.channelName, params.targetPeer].join("|"),
+      (signal) =>
+        this.listenToBlockEvents(
+          { ...params, reconnect: SHARED_STREAM_RECONNECT },
+          identity,
+          signal,
+        ),
+      (block) => selectBlockTransactions(block, filter),
+      callbacks,
+    );
+  }
+
   // --- Private Support Methods ---
 
+  /**
+   * Q: How does the proxy behind `wsUrl` know which deliver service we want?
+   * A: From the `service` query parameter, next to `target` and `hostname` (see the README). The request envelope
+   *    is the same signed `SeekInfo` for all three; only the service it's sent to and the response type differ.
+   *    A block of the wrong kind means the proxy called another service, so the stream fails instead of hanging.
+   *
+   * Yields the block part of every deliver response, of whatever kind the service sends. Reconnects are
+   * handled here: a new connection starts at the block after the last one yielded, with the same stop block.
+   */
+  private async *streamDeliver(
+    service: DeliverService,
+    params: BlockEventParams,
+    identity: AppIdentity,
+    signal: AbortSignal,
+  ): AsyncGenerator<DeliveredBlock> {
+    // The block after the last one handed over; where a new connection has to pick up.
+    let resumeBlock: bigint | undefined;
+    try {
+      const responses = withReconnect(params, signal, (onOpen) =>
+        this.openDeliverStream(
+          service,
+          { ...params, startBlock: resumeBlock ?? params.startBlock },
+          identity,
+          signal,
+          onOpen,
+        ),
+      );
+      for await (const response of responses) {
+        resumeBlock = deliveredBlockNumber(response) + 1n;
+        yield response;
+      }
+    } catch (error) {
+      if (
+        signal.aborted ||
+        (error instanceof Error && error.name === "AbortError")
+      ) {
+        // Expected on cancellation.
+      } else {
+        console.error(
+          `[EventService] Error in ${service} stream for ${params.channelName}:`,
+          error,
+        );
+        throw error;
+      }
+    }
+  }
+
+  /**
+   * One connection to a deliver service, over whichever transport the config asks for. Takes care of
+   * the stop block and the final status (a `DeliverError` unless it's SUCCESS).
+   */
+  private async *openDeliverStream(
+    service: DeliverService,
+    params: BlockEventParams,
+    identity: AppIdentity,
+    signal: AbortSignal,
+    onOpen: () => void,
+  ): AsyncGenerator<DeliveredBlock> {
+    const request = await createSignedDeliverRequest({
+      ...params,
+      identity,
+      tlsCertHash: this.tlsCertHash,
+    });
+    const stopBlock =
+      params.stopBlock !== undefined ? BigInt(params.stopBlock) : undefined;
+
+    const deliverResponses =
+      this.deliverTransport === "gateway"
+        ? this.deliverOverGateway(service, params, request, signal, onOpen)
+        : this.deliverOverWebSocket(service, params, request, signal, onOpen);
+
+    for await (const deliverResponse of deliverResponses) {
+      const response = deliverResponse.Type;
+      if (response.case === "status") {
+        // The peer sends a status when it's done: SUCCESS after the stop block, anything else on failure.
+        if (response.value === Status.SUCCESS) {
+          return;
+        }
+        throw new DeliverError(params.channelName, response.value);
+      } else if (response.case !== undefined) {
+        if (response.case !== DELIVERED_CASE[service]) {
+          throw new FabricError(
+            `Expected ${DELIVERED_CASE[service]} responses from the ${service} service, got ${response.case}.` +
+              (this.deliverTransport === "websocket"
+                ? " The WebSocket proxy at wsUrl must call the deliver service named by the `service` query parameter."
+                : ""),
+          );
+        }
+        yield response;
+        if (
+          stopBlock !== undefined &&
+          deliveredBlockNumber(response) >= stopBlock
+        ) {
+          return;
+        }
+      } else {
+        console.warn("[EventService] Malformed deliverResponse received.");
+      }
+    }
+  }
+
+  /**
+   * Q: How does the block stream get through the Gateway's proxy?
+   * A: The Deliver service lives on the same peer as the Gateway, so the grpc-web (or Connect) proxy in front
+   *    of it reaches both. Its methods are bidirectional streams, which `fetch` can't send, but they only ever
+   *    need the one seek request, so we call them as server streams. The peer can't tell the difference.
+   *    The blocks come from the Gateway's peer; `targetPeer` and `targetHostname` are for the WebSocket proxy only.
+   */
+  private async *deliverOverGateway(
+    service: DeliverService,
+    params: BlockEventParams,
+    request: Envelope,
+    signal: AbortSignal,
+    onOpen: () => void,
+  ): AsyncGenerator<DeliverResponse> {
+    // Our own controller, so that stopping early (at the stop block) also cancels the call.
+    const abortController = new AbortController();
+    const abort = () => abortController.abort();
+    signal.addEventListener("abort", abort, { once: true });
+
+    try {
+      const responses = await runWithInterceptors(
+        this.config.interceptors,
+        {
+          operation: "blockEvents",
+          channelName: params.channelName,
+          url: `${this.config.gatewayUrl}/${Deliver.typeName}/${Deliver.method[service].name}`,
+          header: new Headers(),
+        },
+        async (context) =>
+          this.deliverClient[service](request, {
+            headers: context.header,
+            signal: abortController.signal,
+          }),
+      );
+      onOpen();
+      yield* responses;
+    } finally {
+      signal.removeEventListener("abort", abort);
+      abortController.abort();
+    }
+  }
+
+  /** One WebSocket connection to the deliver proxy at `wsUrl`. Closes the socket when done. */
+  private async *deliverOverWebSocket(
+    service: DeliverService,
+    params: BlockEventParams,
+    request: Envelope,
+    signal: AbortSignal,
+    onOpen: () => void,
+  ): AsyncGenerator<DeliverResponse> {
+    if (!this.config.wsUrl) {
+      throw new Error(
+        "Block events over WebSocket require a `wsUrl` in the client configuration.",
+      );
+    }
+    if (!params.targetPeer || !params.targetHostname) {
+      throw new Error(
+        "Block events over WebSocket require `targetPeer` and `targetHostname`, so the proxy knows which peer to reach.",
+      );
+    }
+    const wsUrl = new URL(this.config.wsUrl);
+    wsUrl.searchParams.append("target", params.targetPeer);
+    wsUrl.searchParams.append("hostname", params.targetHostname);
+    wsUrl.searchParams.append("service", service);
+
+    const WS = await getWebSocketClass();
+    const socket: any = await runWithInterceptors(
+      this.config.interceptors,
+      {
+        operation: "blockEvents",
+        channelName: params.channelName,
+        url: wsUrl.toString(),
+        header: new Headers(),
+      },
+      async (context) => this.openSocket(WS, wsUrl, context.header),
+    );
+    socket.binaryType = "arraybuffer";
+
+    try {
+      await this.waitForSocketOpen(socket, signal);
+      onOpen();
+      socket.send(toBinary(EnvelopeSchema, request));
+
+      for await (const message of this.readSocketMessages(socket, signal)) {
+        // Validate message type and size
+        if (
+          !message.data ||
+          !(message.data instanceof ArrayBuffer) ||
+          message.data.byteLength === 0 ||
+          message.data.byteLength > MAX_DELIVER_MESSAGE_BYTES[service]
+        ) {
+          console.warn("[EventService] Ignoring invalid or oversized WebSocket message.");
+          continue;
+        }
+
+        let deliverResponse: DeliverResponse;
+        try {
+          deliverResponse = fromBinary(
+            DeliverResponseSchema,
+            new Uint8Array(message.data),
+          );
+        } catch (err) {
+          console.warn("[EventService] Failed to parse WebSocket message:", err);
+          continue;
+        }
+        yield deliverResponse;
+      }
+    } finally {
+      if (
+        socket.readyState === WS.OPEN ||
+        socket.readyState === WS.CONNECTING
+      ) {
+        socket.close(1000, "Stream finished by client");
+      }
+    }
+  }
+
+
+  /** One connection's worth of the Gateway's chaincode event stream, from the position `getPosition` gives. */
+  private async *openChaincodeEventStream(
+    params: ChaincodeEventParams,
+    identity: AppIdentity,
+    signal: AbortSignal,
+    getPosition: () => Promise<StartPosition>,
+    onOpen: () => void,
+  ): AsyncGenerator<ChaincodeEventsResponse> {
+    const signedRequest = await this.createSignedChaincodeEventsRequest(
+      params,
+      identity,
+      await getPosition(),
+    );
+
+    const stream = await runWithInterceptors(
+      this.config.interceptors,
+      {
+        operation: "chaincodeEvents",
+        channelName: params.channelName,
+        url: `${this.config.gatewayUrl}/${Gateway.typeName}/ChaincodeEvents`,
+        header: new Headers(),
+      },
+      async (context) =>
+        this.gatewayClient.chaincodeEvents(signedRequest, {
+          headers: context.header,
+          signal,
+        }),
+    );
+    onOpen();
+
+    for await (const response of stream) {
+      // Validate response type and structure
+      if (!response || typeof response !== "object") {
+        console.warn("[EventService] Ignoring invalid chaincode event response.");
+        continue;
+      }
+      yield response;
+    }
+  }
+
+  /**
+   * Q: Where does a chaincode event stream start?
+   * A: At the checkpoint if there is one, otherwise at `startBlock`. It's worked out once, for the first
+   *    connection; reconnects go on from the last block delivered instead, since the checkpoint may not have
+   *    caught up with it yet. Without a start block the Gateway would begin with the next block, and "next"
+   *    moves on while a dropped stream reconnects, so with a `reconnect` policy we pin it to the current height.
+   */
+  private async getStartPosition(
+    params: ChaincodeEventParams,
+    identity: AppIdentity,
+    signal: AbortSignal,
+  ): Promise<StartPosition> {
+    const checkpoint = await params.checkpointer?.getCheckpoint();
+    if (checkpoint) {
+      return {
+        startBlock: checkpoint.blockNumber,
+        afterTransactionId: checkpoint.transactionId,
+      };
+    }
+    if (params.startBlock === undefined && params.reconnect) {
+      return {
+        startBlock: await this.getChainHeight(params, identity, signal),
+        afterTransactionId: params.afterTransactionId,
+      };
+    }
+    return {
+      startBlock:
+        params.startBlock !== undefined ? BigInt(params.startBlock) : undefined,
+      afterTransactionId: params.afterTransactionId,
+    };
+  }
+
+  /** The number of the next block to be committed, from `qscc`'s `GetChainInfo`. */
+  private async getChainHeight(
+    params: ChaincodeEventParams,
+    identity: AppIdentity,
+    signal: AbortSignal,
+  ): Promise<bigint> {
+    const { txId, nonce, creatorBytes } = await generateTransactionId(
+      identity,
+      params.mspId,
+    );
+    const proposalBytes = buildProposalPayload(
+      {
+        mspId: params.mspId,
+        channelName: params.channelName,
+        chaincodeName: "qscc",
+        functionName: "GetChainInfo",
+        args: [params.channelName],
+      },
+      txId,
+      creatorBytes,
+      nonce,
+      this.tlsCertHash,
+    );
+    const evaluateRequest = create(EvaluateRequestSchema, {
+      channelId: params.channelName,
+      transactionId: txId,
+      proposedTransaction: create(SignedProposalSchema, {
+        proposalBytes,
+        signature: await signFabricSignature(proposalBytes, identity),
+      }),
+    });
+
+    const response = await runWithInterceptors(
+      this.config.interceptors,
+      {
+        operation: "evaluate",
+        channelName: params.channelName,
+        txId,
+        url: `${this.config.gatewayUrl}/${Gateway.typeName}/Evaluate`,
+        header: new Headers(),
+      },
+      async (context) =>
+        this.gatewayClient.evaluate(evaluateRequest, {
+          headers: context.header,
+          signal,
+        }),
+    );
+    const parsed = parseEvaluateResponse(response, bytesCodec);
+    if (!parsed.success) {
+      throw parsed.error;
+    }
+    return BigInt(decodeChainInfo(parsed.data.payload).height);
+  }
+
   private async createSignedChaincodeEventsRequest(
     params: ChaincodeEventParams,
     identity: AppIdentity,
+    { startBlock, afterTransactionId }: StartPosition,
   ): Promise<SignedChaincodeEventsRequest> {
     const identityBytes = createSerializedIdentityBytes(
       params.mspId,
@@ -299,6 +901,19 @@ export class EventService {
       channelId: params.channelName,
       chaincodeId: params.chaincodeName,
       identity: identityBytes,
+      // No start position means "from the next block", which is what the Gateway does by default.
+      startPosition:
+        startBlock !== undefined
+          ? create(SeekPositionSchema, {
+              Type: {
+                case: "specified",
+                value: create(SeekSpecifiedSchema, {
+                  number: startBlock,
+                }),
+              },
+            })
+          : undefined,
+      afterTransactionId: afterTransactionId ?? "",
     });
 
     const requestBytes = toBinary(ChaincodeEventsRequestSchema, eventsRequest);
@@ -311,6 +926,27 @@ export class EventService {
     });
   }
 
+  /**
+   * In Node, the `ws` constructor takes TLS options and handshake headers, so this is where the CA,
+   * the mutual TLS client certificate and any interceptor headers are applied. The browser's WebSocket
+   * has no such thing (its second argument is the subprotocol list), so there we leave all that to the browser.
+   */
+  private openSocket(WS: any, url: URL, header: Headers): any {
+    if (typeof window === "undefined") {
+      const headers: Record<string, string> = {};
+      header.forEach((value, key) => {
+        headers[key] = value;
+      });
+      return new WS(url.toString(), {
+        ca: this.config.tlsCaCert,
+        cert: this.config.tlsClientCert,
+        key: this.config.tlsClientKey,
+        headers,
+      });
+    }
+    return new WS(url.toString());
+  }
+
   private async waitForSocketOpen(
     socket: any,
     signal: AbortSignal,
@@ -329,36 +965,65 @@ export class EventService {
       });
       socket.onerror = () => {
         signal.removeEventListener("abort", abortHandler);
-        reject(new Error("Failed to establish WebSocket connection."));
+        reject(
+          new StreamDisconnectedError(
+            "Failed to establish WebSocket connection.",
+          ),
+        );
       };
     });
   }
 
-  private async waitForSocketMessage(
+  /**
+   * Q: Why a queue? Why not wait for the next message when we need it?
+   * A: Because messages don't wait for us. The peer keeps sending while the consumer is busy with the
+   *    previous block, and a message that arrives with nobody listening is gone. So we listen all the time,
+   *    queue what comes in, and only report a closed socket once everything before it has been handed over.
+   */
+  private async *readSocketMessages(
     socket: any,
     signal: AbortSignal,
-  ): Promise<MessageEvent<ArrayBuffer>> {
-    return new Promise((resolve, reject) => {
-      if (signal.aborted) return reject(new Error("AbortError"));
-      const abortHandler = () => reject(new Error("AbortError"));
-      signal.addEventListener("abort", abortHandler, { once: true });
+  ): AsyncGenerator<MessageEvent<ArrayBuffer>> {
+    const queue: MessageEvent<ArrayBuffer>[] = [];
+    let failure: Error | undefined;
+    let wake: (() => void) | undefined;
+    const notify = () => {
+      wake?.();
+      wake = undefined;
+    };
 
-      socket.addEventListener("message", (event: any) => {
-        signal.removeEventListener("abort", abortHandler);
-        resolve(event);
-      });
-      socket.onclose = (event: any) => {
-        signal.removeEventListener("abort", abortHandler);
-        reject(
-          new Error(
-            `WebSocket closed unexpectedly: ${event.code} ${event.reason}`,
-          ),
-        );
-      };
-      socket.onerror = () => {
-        signal.removeEventListener("abort", abortHandler);
-        reject(new Error("Error in WebSocket connection."));
-      };
+    socket.addEventListener("message", (event: any) => {
+      queue.push(event);
+      notify();
     });
+    socket.onclose = (event: any) => {
+      failure ??= new StreamDisconnectedError(
+        `WebSocket closed unexpectedly: ${event.code} ${event.reason}`,
+      );
+      notify();
+    };
+    socket.onerror = () => {
+      failure ??= new StreamDisconnectedError("Error in WebSocket connection.");
+      notify();
+    };
+    signal.addEventListener("abort", notify, { once: true });
+
+    try {
+      while (true) {
+        if (signal.aborted) throw new Error("AbortError");
+        const message = queue.shift();
+        if (message) {
+          yield message;
+          continue;
+        }
+        if (failure) throw failure;
+        await new Promise<void>((resolve) => {
+          wake = resolve;
+        });
+      }
+    } finally {
+      signal.removeEventListener("abort", notify);
+    }
   }
+
 }
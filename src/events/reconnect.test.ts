@@ -0,0 +1,74 @@
+import { describe, it, expect } from "vitest";
+import { withReconnect } from "./reconnect";
+import { DeliverError, StreamDisconnectedError } from "../errors";
+import { Status } from "../generated_protos/common/common_pb";
+import type { ConnectionStateChange } from "../models";
+
+async function collect<T>(generator: AsyncGenerator<T>): Promise<T[]> {
+  const items: T[] = [];
+  for await (const item of generator) {
+    items.push(item);
+  }
+  return items;
+}
+
+describe("withReconnect", () => {
+  it("should reconnect from where the last connection left off and report each state", async () => {
+    const states: ConnectionStateChange[] = [];
+    let next = 1;
+    let connections = 0;
+
+    const blocks = await collect(
+      withReconnect(
+        {
+          reconnect: { initialDelayMs: 0, maxAttempts: 3 },
+          onConnectionStateChange: (change) => states.push(change),
+        },
+        new AbortController().signal,
+        async function* (onOpen) {
+          connections++;
+          onOpen();
+          const stopAt = connections === 1 ? 2 : 4;
+          while (next <= stopAt) {
+            yield next++;
+          }
+          if (connections === 1) {
+            throw new StreamDisconnectedError("WebSocket closed unexpectedly: 1006 ");
+          }
+        },
+      ),
+    );
+
+    expect(blocks).toEqual([1, 2, 3, 4]);
+    expect(states.map(({ state, attempt }) => [state, attempt])).toEqual([
+      ["connecting", 0],
+      ["open", 0],
+      ["reconnecting", 1],
+      ["open", 1],
+      ["closed", 0],
+    ]);
+  });
+
+  it("should give up on errors a new connection wouldn't fix", async () => {
+    const states: ConnectionStateChange[] = [];
+    const refused = new DeliverError("mychannel", Status.FORBIDDEN);
+
+    await expect(
+      collect(
+        withReconnect(
+          {
+            reconnect: { initialDelayMs: 0 },
+            onConnectionStateChange: (change) => states.push(change),
+          },
+          new AbortController().signal,
+          async function* (onOpen) {
+            onOpen();
+            yield 1;
+            throw refused;
+          },
+        ),
+      ),
+    ).rejects.toBe(refused);
+    expect(states.at(-1)).toEqual({ state: "closed", attempt: 0, error: refused });
+  });
+});
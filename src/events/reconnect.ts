@@ -0,0 +1,89 @@
+import { Code, ConnectError } from "@connectrpc/connect";
+import type { ConnectionStateChange, EventStreamOptions } from "../models";
+import { Status } from "../generated_protos/common/common_pb";
+import { DeliverError, StreamDisconnectedError } from "../errors";
+import { getBackoffDelay, sleep } from "../utils/backoff";
+
+/** gRPC codes that say "the connection had a problem", not "your request did". */
+const TRANSIENT_CODES = new Set<Code>([
+  Code.Unknown,
+  Code.Unavailable,
+  Code.Internal,
+  Code.DeadlineExceeded,
+  Code.ResourceExhausted,
+  Code.Aborted,
+]);
+
+/**
+ * Q: Which failures are worth reconnecting for?
+ * A: A dropped connection, a gRPC stream that failed in transit, or a peer saying it's temporarily
+ *    unavailable. A peer refusing the request (`FORBIDDEN`, `BAD_REQUEST`...) would refuse it again,
+ *    and a bug of ours would fail again, so those end the stream.
+ */
+export function isTransientStreamError(error: unknown): boolean {
+  if (error instanceof StreamDisconnectedError) {
+    return true;
+  }
+  if (error instanceof DeliverError) {
+    return error.status === Status.SERVICE_UNAVAILABLE;
+  }
+  if (error instanceof ConnectError) {
+    return TRANSIENT_CODES.has(error.code);
+  }
+  return false;
+}
+
+/**
+ * Q: How does a stream survive its connection dropping?
+ * A: `connect` opens one connection and yields what comes over it, calling `onOpen` once it's up.
+ *    When it fails with a transient error and there's a `reconnect` policy, we wait (with backoff) and call
+ *    `connect` again. It's up to `connect` to start where the previous connection left off; the callers do
+ *    that by remembering the last block they delivered. Every state change goes to `onConnectionStateChange`.
+ */
+export async function* withReconnect<T>(
+  options: EventStreamOptions,
+  signal: AbortSignal,
+  connect: (onOpen: () => void) => AsyncGenerator<T>,
+): AsyncGenerator<T> {
+  const policy = options.reconnect;
+  const notify = (change: ConnectionStateChange) =>
+    options.onConnectionStateChange?.(change);
+
+  let attempt = 0;
+  let failure: unknown;
+  notify({ state: "connecting", attempt });
+
+  try {
+    while (true) {
+      try {
+        for await (const item of connect(() =>
+          notify({ state: "open", attempt }),
+        )) {
+          attempt = 0;
+          yield item;
+        }
+        return;
+      } catch (error) {
+        if (
+          !policy ||
+          signal.aborted ||
+          !isTransientStreamError(error) ||
+          attempt >= (policy.maxAttempts ?? Infinity)
+        ) {
+          throw error;
+        }
+        attempt++;
+        const delayMs = getBackoffDelay(attempt, policy);
+        notify({ state: "reconnecting", attempt, delayMs, error });
+        await sleep(delayMs, signal);
+      }
+    }
+  } catch (error) {
+    if (!signal.aborted) {
+      failure = error;
+    }
+    throw error;
+  } finally {
+    notify({ state: "closed", attempt, error: failure });
+  }
+}
@@ -0,0 +1,63 @@
+import { describe, it, expect, vi } from "vitest";
+import { create } from "@bufbuild/protobuf";
+import { SubscriptionManager, selectBlockTransactions } from "./subscriptions";
+import { FilteredBlockSchema } from "../generated_protos/peer/events_pb";
+import { TxValidationCode } from "../generated_protos/peer/transaction_pb";
+
+describe("SubscriptionManager", () => {
+  it("should share one stream between subscribers and close it after the last one leaves", async () => {
+    const manager = new SubscriptionManager();
+    const open = vi.fn(async function* (signal: AbortSignal) {
+      let n = 0;
+      while (!signal.aborted) {
+        yield n++;
+        await new Promise((resolve) => setTimeout(resolve, 1));
+      }
+    });
+    const evens: number[] = [];
+    const all: number[] = [];
+    const onClose = vi.fn();
+
+    const unsubscribeEvens = manager.subscribe(
+      "key",
+      open,
+      (n) => (n % 2 === 0 ? n : undefined),
+      { onData: (n) => evens.push(n), onError: () => {}, onClose },
+    );
+    const unsubscribeAll = manager.subscribe("key", open, (n) => n, {
+      onData: (n) => all.push(n),
+      onError: () => {},
+    });
+
+    await vi.waitFor(() => expect(all.length).toBeGreaterThanOrEqual(4));
+    unsubscribeEvens();
+    expect(onClose).toHaveBeenCalledOnce();
+    expect(manager.size).toBe(1);
+    unsubscribeAll();
+
+    expect(open).toHaveBeenCalledOnce();
+    expect(manager.size).toBe(0);
+    expect(evens.every((n) => n % 2 === 0)).toBe(true);
+    expect(evens.length).toBeGreaterThan(0);
+  });
+});
+
+describe("selectBlockTransactions", () => {
+  it("should keep only the transactions matching every given criterion", () => {
+    const block = create(FilteredBlockSchema, {
+      number: 9n,
+      filteredTransactions: [
+        { txid: "tx1", txValidationCode: TxValidationCode.VALID },
+        { txid: "tx2", txValidationCode: TxValidationCode.MVCC_READ_CONFLICT },
+      ],
+    });
+
+    expect(selectBlockTransactions(block, {})).toBe(block);
+    expect(
+      selectBlockTransactions(block, {
+        validationCodes: [TxValidationCode.MVCC_READ_CONFLICT],
+      })?.filteredTransactions.map((tx) => tx.txid),
+    ).toEqual(["tx2"]);
+    expect(selectBlockTransactions(block, { txIds: ["tx1"], eventNames: ["AssetCreated"] })).toBeUndefined();
+  });
+});
@@ -0,0 +1,160 @@
+import type {
+  BlockEventFilter,
+  ChaincodeEventFilter,
+  ChaincodeEventsResponse,
+  EventCallbacks,
+  FilteredBlock,
+} from "../models";
+
+interface Subscriber<T> {
+  /** Applies the subscriber's filter: what it should get out of `data`, or `undefined` for nothing. */
+  select(data: T): T | undefined;
+  callbacks: EventCallbacks<T>;
+}
+
+interface SharedStream<T> {
+  readonly subscribers: Set<Subscriber<T>>;
+  readonly abortController: AbortController;
+}
+
+function matches<T>(allowed: T[] | undefined, value: T): boolean {
+  return allowed === undefined || allowed.includes(value);
+}
+
+/** The part of a chaincode event response a subscriber asked for. */
+export function selectChaincodeEvents(
+  response: ChaincodeEventsResponse,
+  filter: ChaincodeEventFilter,
+): ChaincodeEventsResponse | undefined {
+  const events = response.events.filter(
+    (event) =>
+      matches(filter.eventNames, event.eventName) &&
+      matches(filter.txIds, event.txId),
+  );
+  return events.length > 0 ? { ...response, events } : undefined;
+}
+
+/** The part of a filtered block a subscriber asked for. */
+export function selectBlockTransactions(
+  block: FilteredBlock,
+  filter: BlockEventFilter,
+): FilteredBlock | undefined {
+  if (
+    filter.txIds === undefined &&
+    filter.validationCodes === undefined &&
+    filter.eventNames === undefined
+  ) {
+    return block;
+  }
+  const filteredTransactions = block.filteredTransactions.filter(
+    (transaction) => {
+      const eventNames =
+        transaction.Data.case === "transactionActions"
+          ? transaction.Data.value.chaincodeActions.flatMap((action) =>
+              action.chaincodeEvent ? [action.chaincodeEvent.eventName] : [],
+            )
+          : [];
+      return (
+        matches(filter.txIds, transaction.txid) &&
+        matches(filter.validationCodes, transaction.txValidationCode) &&
+        (filter.eventNames === undefined ||
+          eventNames.some((name) => filter.eventNames!.includes(name)))
+      );
+    },
+  );
+  return filteredTransactions.length > 0
+    ? { ...block, filteredTransactions }
+    : undefined;
+}
+
+/**
+ * Q: What does this manage?
+ * A: One stream per key, however many subscribers it has. The first subscriber opens it, every item is handed
+ *    to each subscriber (through its filter), and the last one to unsubscribe closes it. If the stream ends or
+ *    fails, every subscriber hears about it and the next `subscribe` opens a fresh one.
+ */
+export class SubscriptionManager {
+  private readonly streams = new Map<string, SharedStream<any>>();
+
+  /**
+   * @param open Opens the stream. Only called if there's no stream for `key` yet.
+   * @returns The unsubscribe function.
+   */
+  public subscribe<T>(
+    key: string,
+    open: (signal: AbortSignal) => AsyncGenerator<T>,
+    select: (data: T) => T | undefined,
+    callbacks: EventCallbacks<T>,
+  ): () => void {
+    let stream: SharedStream<T> | undefined = this.streams.get(key);
+    if (!stream) {
+      stream = {
+        subscribers: new Set(),
+        abortController: new AbortController(),
+      };
+      this.streams.set(key, stream);
+      this.pump(key, stream, open(stream.abortController.signal));
+    }
+
+    const subscriber: Subscriber<T> = { select, callbacks };
+    stream.subscribers.add(subscriber);
+    const sharedStream = stream;
+
+    return () => {
+      if (!sharedStream.subscribers.delete(subscriber)) return;
+      subscriber.callbacks.onClose?.();
+      if (sharedStream.subscribers.size === 0) {
+        this.close(key, sharedStream);
+      }
+    };
+  }
+
+  /** How many streams are open right now. */
+  public get size(): number {
+    return this.streams.size;
+  }
+
+  private async pump<T>(
+    key: string,
+    stream: SharedStream<T>,
+    generator: AsyncGenerator<T>,
+  ): Promise<void> {
+    const signal = stream.abortController.signal;
+    try {
+      for await (const data of generator) {
+        if (signal.aborted) break;
+        for (const subscriber of stream.subscribers) {
+          const selected = subscriber.select(data);
+          if (selected === undefined) continue;
+          try {
+            subscriber.callbacks.onData(selected);
+          } catch (error) {
+            // One subscriber's bug shouldn't cut everyone else off.
+            console.error("[EventService] Error in a subscriber's onData:", error);
+          }
+        }
+      }
+    } catch (error) {
+      if (!signal.aborted) {
+        for (const subscriber of stream.subscribers) {
+          subscriber.callbacks.onError(error as Error);
+        }
+      }
+    } finally {
+      if (!signal.aborted) {
+        for (const subscriber of stream.subscribers) {
+          subscriber.callbacks.onClose?.();
+        }
+        stream.subscribers.clear();
+        this.close(key, stream);
+      }
+    }
+  }
+
+  private close<T>(key: string, stream: SharedStream<T>): void {
+    stream.abortController.abort();
+    if (this.streams.get(key) === stream) {
+      this.streams.delete(key);
+    }
+  }
+}
@@ -133,6 +133,34 @@ export class CryptoEngine {
           };
           break;
 
+        case WorkerAction.SignPayloads:
+          if (!this.unlockedKey) {
+            throw new Error("Cannot sign: No identity is currently unlocked.");
+          }
+          if (
+            !Array.isArray(payload) ||
+            !payload.every((item) => ArrayBuffer.isView(item))
+          ) {
+            throw new Error(
+              "Payload for batch signing must be an array of Uint8Arrays.",
+            );
+          }
+          const batchCrypto = getSubtleCrypto();
+          const signatures: Uint8Array[] = [];
+          for (const item of payload) {
+            signatures.push(
+              new Uint8Array(
+                await batchCrypto.sign(
+                  { name: "ECDSA", hash: { name: "SHA-256" } },
+                  this.unlockedKey,
+                  item,
+                ),
+              ),
+            );
+          }
+          result = { success: true, data: signatures, error: null };
+          break;
+
         case WorkerAction.GetHardwareCredentialId:
           if (engineType !== "hardware-based") {
             throw new Error(
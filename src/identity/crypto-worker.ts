@@ -7,11 +7,11 @@ import { CryptoEngine } from "./crypto-engine";
 const engine = new CryptoEngine();
 
 self.onmessage = async (event: MessageEvent) => {
-  const { action, payload, engineType } = event.data;
+  const { id, action, payload, engineType } = event.data;
 
   // Delegate the actual work to the engine.
   const result = await engine.performAction(action, payload, engineType);
 
-  // Send the result back to the main thread.
-  self.postMessage(result);
+  // Send the result back to the main thread, tagged with the request it answers.
+  self.postMessage({ id, result });
 }; 
\ No newline at end of file
@@ -12,7 +12,7 @@ import {
 } from "../models";
 import { CryptoEngine } from "./crypto-engine";
 import { tryCatch } from "../utils/try-catch";
-import type { ExportedIdentity } from "./interfaces";
+import type { ExportedIdentity, WorkerRequest } from "./interfaces";
 
 function uint8ArrayToBase64Url(array: Uint8Array): string {
   return btoa(String.fromCharCode.apply(null, Array.from(array)))
@@ -28,6 +28,7 @@ export class IdentityService {
   private engine: CryptoEngine | null = null;
   private passwordEngine: any; // PasswordBasedEngine, but avoid import cycle
   private mspId: string;
+  private nextRequestId = 0;
 
   constructor(mspId: string) {
     this.mspId = mspId;
@@ -59,13 +60,18 @@ export class IdentityService {
     }
     if (this.worker) {
       // Browser path: use the worker
+      // Several requests can be in flight at once (a batch signing envelopes in parallel, say),
+      // so each one waits for the answer carrying its own id.
+      const id = this.nextRequestId++;
       return new Promise((resolve) => {
         const handleResponse = (event: MessageEvent) => {
+          if (event.data?.id !== id) return;
           this.worker!.removeEventListener("message", handleResponse);
-          resolve(event.data as Result<T>);
+          resolve(event.data.result as Result<T>);
         };
         this.worker!.addEventListener("message", handleResponse);
-        this.worker!.postMessage({ action, payload, engineType });
+        const request: WorkerRequest = { id, action, payload, engineType };
+        this.worker!.postMessage(request);
       });
     }
     throw new Error("IdentityService is not initialized correctly.");
@@ -91,6 +97,17 @@ export class IdentityService {
         }
         return signResult.data;
       },
+      signBatch: async (dataToSign: Uint8Array[]): Promise<Uint8Array[]> => {
+        const signResult = await serviceInstance.request<Uint8Array[]>(
+          WorkerAction.SignPayloads,
+          dataToSign,
+          "password-based",
+        );
+        if (!signResult.success) {
+          throw signResult.error;
+        }
+        return signResult.data;
+      },
     };
   }
 
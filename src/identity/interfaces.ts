@@ -29,6 +29,7 @@ export const enum WorkerAction {
   DoesIdentityExist = "DOES_IDENTITY_EXIST",
   DeleteIdentity = "DELETE_IDENTITY",
   SignPayload = "SIGN_PAYLOAD",
+  SignPayloads = "SIGN_PAYLOADS",
   GetHardwareCredentialId = "GET_HW_CREDENTIAL_ID",
 }
 
@@ -36,6 +37,8 @@ export const enum WorkerAction {
  * Define the structure of the message sent from the service to the worker.
  */
 export interface WorkerRequest {
+  /** Echoed back with the result, so concurrent requests each get their own answer. */
+  id: number;
   action: WorkerAction;
   payload: any;
   engineType: "password-based" | "hardware-based";
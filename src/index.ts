@@ -1,5 +1,23 @@
 export { IdentityService } from "./identity/identity-service";
 export { FabricClient } from "./client/fabric-client";
+export { Commit } from "./client/commit";
+export { Network, Contract } from "./client/contract";
+export { Lifecycle } from "./client/lifecycle";
+export { createFabricTransport } from "./client/transports";
+export { runWithInterceptors } from "./client/interceptors";
 export { EventService } from "./events/event-service";
+export {
+  KeyValueCheckpointer,
+  FileCheckpointer,
+  IndexedDBCheckpointer,
+} from "./events/checkpointers";
+export {
+  decodeBlock,
+  decodeBlockAndPrivateData,
+  decodeChainInfo,
+  decodeProcessedTransaction,
+} from "./protobuf/block-decoder";
 
+export * from "./codecs";
+export * from "./errors";
 export * from "./models";
@@ -0,0 +1,77 @@
+import type {
+  DecodedIdentity,
+  DecodedNamespaceReadWriteSet,
+  InspectedTransaction,
+} from "./transaction.types";
+
+/**
+ * What `decodeBlock` turns a `common.Block` into. Same rules as the transaction shapes:
+ * bytes are hex, 64-bit numbers are decimal strings, enums are their names. `JSON.stringify` it all you want.
+ */
+
+export interface DecodedBlockHeader {
+  readonly number: string;
+  readonly previousHash: string;
+  readonly dataHash: string;
+}
+
+export interface DecodedMetadataSignature {
+  /** The orderer that signed the block. */
+  readonly signer: DecodedIdentity;
+  readonly nonce: string;
+  readonly signature: string;
+}
+
+export interface DecodedBlockMetadata {
+  readonly signatures: DecodedMetadataSignature[];
+  /** The number of the block holding the channel config in force. */
+  readonly lastConfigIndex?: string;
+  /** One `TxValidationCode` name per transaction, in block order. Empty until a peer has validated the block. */
+  readonly validationCodes: string[];
+  readonly commitHash: string;
+}
+
+export interface DecodedBlockTransaction extends InspectedTransaction {
+  /** The `TxValidationCode` name the committing peer gave it, e.g. `"VALID"` or `"MVCC_READ_CONFLICT"`. */
+  readonly validationCode: string;
+  readonly isValid: boolean;
+}
+
+export interface DecodedBlock {
+  readonly header: DecodedBlockHeader;
+  readonly transactions: DecodedBlockTransaction[];
+  readonly metadata: DecodedBlockMetadata;
+}
+
+/** What `qscc`'s `GetChainInfo` says about a channel's ledger. */
+export interface DecodedChainInfo {
+  /** The number of blocks, so the newest one is `height - 1`. */
+  readonly height: string;
+  readonly currentBlockHash: string;
+  readonly previousBlockHash: string;
+}
+
+/** The cleartext private data one collection got from a transaction. */
+export interface DecodedCollectionPrivateData
+  extends Pick<DecodedNamespaceReadWriteSet, "reads" | "writes" | "rangeQueryCount"> {
+  readonly collectionName: string;
+}
+
+export interface DecodedNamespacePrivateData {
+  readonly namespace: string;
+  readonly collections: DecodedCollectionPrivateData[];
+}
+
+export interface DecodedTransactionPrivateData {
+  /** The position of the transaction in the block, i.e. its index in `transactions`. */
+  readonly transactionIndex: number;
+  readonly namespaces: DecodedNamespacePrivateData[];
+}
+
+/**
+ * What `DeliverWithPrivateData` sends, decoded: the block plus the private data this peer holds for it.
+ * Only transactions touching a collection the peer (and you) are a member of show up in `privateData`.
+ */
+export interface DecodedBlockAndPrivateData extends DecodedBlock {
+  readonly privateData: DecodedTransactionPrivateData[];
+}
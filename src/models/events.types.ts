@@ -1,3 +1,6 @@
+import type { TxValidationCode } from "../generated_protos/peer/transaction_pb";
+import type { BackoffOptions } from "./fabric.types";
+
 export type EventCallback<T> = (data: T) => void;
 export type ErrorCallback = (error: Error) => void;
 export type CloseCallback = () => void;
@@ -10,3 +13,75 @@ export interface EventCallbacks<T> {
   onError: ErrorCallback;
   onClose?: CloseCallback;
 }
+
+/**
+ * Where a listener left off. `blockNumber` is the block to start from next time; if `transactionId` is set,
+ * that block was only partly processed and everything up to and including that transaction is skipped.
+ */
+export interface Checkpoint {
+  blockNumber: bigint;
+  transactionId?: string;
+}
+
+/**
+ * Remembers how far an event listener got, so it can pick up from there after a reload or a crash.
+ * See `KeyValueCheckpointer`, `FileCheckpointer` and `IndexedDBCheckpointer`.
+ */
+export interface Checkpointer {
+  /** `undefined` if nothing has been processed yet. */
+  getCheckpoint(): Promise<Checkpoint | undefined>;
+  /** Block `blockNumber` has been fully processed; the next start is the block after it. */
+  checkpointBlock(blockNumber: bigint): Promise<void>;
+  /** Everything up to and including `transactionId` in block `blockNumber` has been processed. */
+  checkpointTransaction(
+    blockNumber: bigint,
+    transactionId: string,
+  ): Promise<void>;
+}
+
+/**
+ * Opt-in reconnection for event streams whose connection drops. The stream picks up at the block after the
+ * last one it delivered, so nothing is missed and nothing comes twice.
+ */
+export interface ReconnectPolicy extends BackoffOptions {
+  /** Reconnection attempts in a row before giving up. Leave it out to keep trying. Starts over once events flow again. */
+  maxAttempts?: number;
+}
+
+export type ConnectionState = "connecting" | "open" | "reconnecting" | "closed";
+
+export interface ConnectionStateChange {
+  readonly state: ConnectionState;
+  /** 0 for the first connection, then 1, 2... for each reconnection attempt in a row. */
+  readonly attempt: number;
+  /** When `reconnecting`: how long we wait before trying again. */
+  readonly delayMs?: number;
+  /** When `reconnecting`: what broke the connection. When `closed`: what ended the stream, if it didn't end cleanly. */
+  readonly error?: unknown;
+}
+
+export interface EventStreamOptions {
+  reconnect?: ReconnectPolicy;
+  /** Called on every change of the underlying connection, e.g. to show the health of the stream in a UI. */
+  onConnectionStateChange?: (change: ConnectionStateChange) => void;
+}
+
+/**
+ * What a shared chaincode event subscriber wants to see. Each field left out matches everything;
+ * the ones given must all match. Responses without a matching event aren't delivered at all.
+ */
+export interface ChaincodeEventFilter {
+  eventNames?: string[];
+  txIds?: string[];
+}
+
+/**
+ * What a shared block event subscriber wants to see. Each field left out matches everything; the ones given
+ * must all match. Blocks come with only the matching transactions, and not at all if none match.
+ */
+export interface BlockEventFilter {
+  txIds?: string[];
+  validationCodes?: TxValidationCode[];
+  /** Transactions that emitted a chaincode event with one of these names. */
+  eventNames?: string[];
+}
@@ -1,12 +1,85 @@
+import type { Transport } from "@connectrpc/connect";
 import type { ChaincodeEventsResponse } from "../generated_protos/gateway/gateway_pb";
 
 import type { FilteredBlock } from "../generated_protos/peer/events_pb";
+import type { TxValidationCode } from "../generated_protos/peer/transaction_pb";
+import type { Commit } from "../client/commit";
+import type { Checkpointer, EventStreamOptions } from "./events.types";
+import type { Result } from "./identity.types";
+
+/**
+ * The wire protocols we can speak to the Gateway out of the box. See `createFabricTransport`.
+ */
+export type TransportProtocol = "grpc-web" | "grpc-web-text" | "connect" | "grpc";
+
+/**
+ * The calls an interceptor can see.
+ */
+export type FabricOperation =
+  | "evaluate"
+  | "endorse"
+  | "submit"
+  | "commitStatus"
+  | "chaincodeEvents"
+  | "blockEvents";
+
+export interface FabricCallContext {
+  readonly operation: FabricOperation;
+  readonly channelName: string;
+  /** Not set for event streams, which aren't tied to a single transaction. */
+  readonly txId?: string;
+  readonly url: string;
+  /**
+   * Outgoing request metadata. Anything set here is sent as HTTP headers (gRPC metadata).
+   * For the block event WebSocket this only works in Node; browsers can't set handshake headers.
+   */
+  readonly header: Headers;
+}
+
+export type FabricCallHandler = (context: FabricCallContext) => Promise<unknown>;
+export type FabricInterceptor = (next: FabricCallHandler) => FabricCallHandler;
+
+/**
+ * Turns values into the bytes a chaincode sees, and the bytes it sends back into values.
+ * See `jsonCodec`, `utf8Codec`, `bytesCodec`, `protobufCodec` and `autoCodec` for the built-in ones.
+ */
+export interface PayloadCodec<T = any> {
+  encode(value: T): Uint8Array;
+  decode(bytes: Uint8Array): T;
+}
 
 export interface FabricClientConfig {
   gatewayUrl: string;
+  /** The WebSocket proxy for block events, e.g. `ws://localhost:8088/ws/deliver`. Only needed with `deliverTransport: "websocket"`. */
   wsUrl?: string;
+  /**
+   * How block streams reach the peer's Deliver service: through the WebSocket proxy at `wsUrl`, or through
+   * the Gateway transport (`"gateway"`), so one grpc-web/Connect proxy serves everything.
+   * Defaults to `"websocket"` when there's a `wsUrl`, `"gateway"` otherwise.
+   */
+  deliverTransport?: "websocket" | "gateway";
   tlsCaCert?: string;
-  createTransport?: (opts: { baseUrl: string }) => unknown;
+  /**
+   * PEM client certificate and private key for mutual TLS (Node only; browsers handle client certs themselves).
+   * Applied to the Gateway transport and the block event WebSocket, and the certificate's hash is written
+   * into every proposal so it is bound to the TLS session.
+   */
+  tlsClientCert?: string;
+  tlsClientKey?: string;
+  /** Built-in transport to use when `createTransport` is not given. Defaults to `"grpc-web"`. */
+  protocol?: TransportProtocol;
+  /** Bring your own Connect transport. Used for the Gateway calls, the chaincode event stream and gateway block streams. */
+  createTransport?: (opts: { baseUrl: string }) => Transport;
+  /**
+   * Runs around every Gateway call, chaincode event stream and block event WebSocket handshake.
+   * Handy for auth headers, logging and per-call metadata. See `runWithInterceptors`.
+   */
+  interceptors?: FabricInterceptor[];
+  /**
+   * How chaincode arguments are encoded and results and event payloads decoded, unless a call says otherwise.
+   * Defaults to `autoCodec`, which guesses the result format.
+   */
+  codec?: PayloadCodec;
 }
 
 interface BaseChaincodeParams {
@@ -17,7 +90,19 @@ interface BaseChaincodeParams {
 
 export interface ProposalParams extends BaseChaincodeParams {
   functionName: string;
-  args?: (string | Uint8Array)[];
+  /** Strings and bytes are sent as they are; anything else is encoded with the codec. */
+  args?: ContractArg[];
+  /**
+   * Private data handed to the chaincode through `GetTransient()`.
+   * It travels with the proposal to the endorsing peers but is never written to the ledger.
+   */
+  transientData?: Record<string, string | Uint8Array>;
+  /**
+   * MSP IDs of the organizations that must handle this proposal.
+   * On endorse it pins the endorsing orgs; on evaluate it picks the orgs allowed to answer.
+   * Leave it empty and the Gateway works it out from the endorsement policy.
+   */
+  endorsingOrganizations?: string[];
 }
 
 export interface SubmitParams {
@@ -30,12 +115,243 @@ export interface EvaluatedTransaction {
   readonly txId: string;
   readonly status: number;
   readonly message: string;
+  /** The chaincode's response, exactly as it came back. */
+  readonly payload: Uint8Array;
+  /** `payload` decoded with the codec. */
   readonly parsedData: any;
 }
 
 export interface PreparedTransaction {
   readonly txId: string;
+  /**
+   * The serialized `common.Payload` the Gateway prepared. Not an Envelope yet, whatever the name says:
+   * submitting wraps it in one together with your signature.
+   */
   readonly transactionEnvelope: Uint8Array;
+  /** SHA-256 of `transactionEnvelope`. This is what an offline signer signs. */
+  readonly digest: Uint8Array;
+}
+
+/**
+ * A proposal that has been built but not signed yet.
+ * Hand the `digest` to whoever holds the private key, then send the signature back with the proposal.
+ */
+export interface UnsignedProposal {
+  readonly txId: string;
+  readonly channelName: string;
+  readonly endorsingOrganizations: string[];
+  readonly proposalBytes: Uint8Array;
+  /** SHA-256 of `proposalBytes`. */
+  readonly digest: Uint8Array;
+}
+
+/**
+ * A `commitStatus` request waiting for its signature.
+ */
+export interface UnsignedCommitStatusRequest {
+  readonly txId: string;
+  readonly channelName: string;
+  readonly requestBytes: Uint8Array;
+  /** SHA-256 of `requestBytes`. */
+  readonly digest: Uint8Array;
+}
+
+export interface CommitStatusParams {
+  mspId: string;
+  channelName: string;
+  txId: string;
+}
+
+/**
+ * Which channel's ledger to ask `qscc` about. `endorsingOrganizations` picks the orgs whose peers may answer.
+ */
+export type LedgerQueryParams = Pick<
+  ProposalParams,
+  "mspId" | "channelName" | "endorsingOrganizations"
+>;
+
+export interface BlockByNumberParams extends LedgerQueryParams {
+  blockNumber: bigint | number;
+}
+
+export interface BlockByHashParams extends LedgerQueryParams {
+  /** The raw hash, or its hex string (as in `DecodedBlockHeader.previousHash`). */
+  blockHash: Uint8Array | string;
+}
+
+export interface TransactionByIdParams extends LedgerQueryParams {
+  txId: string;
+}
+
+export interface TransactionStatus {
+  readonly txId: string;
+  readonly code: TxValidationCode;
+  readonly blockNumber: bigint;
+}
+
+export interface CommitOptions {
+  /** How long to wait for the commit status before giving up, in milliseconds. */
+  timeoutMs?: number;
+  /** Abort the wait for the commit status. */
+  signal?: AbortSignal;
+}
+
+/**
+ * Waits for the commits of many transactions on one channel from a single block stream,
+ * instead of one `commitStatus` call each. See `FabricClient.createCommitTracker`.
+ */
+export interface CommitTracker {
+  readonly channelName: string;
+  waitForCommit(
+    txId: string,
+    options?: CommitOptions,
+  ): Promise<TransactionStatus>;
+  /**
+   * Called by the client just before it submits `txId`, however much later its commit is waited for.
+   * A tracker that starts listening after that can't be sure to see the transaction's block.
+   */
+  markSubmitted?(txId: string): void;
+  /** Stops listening. Transactions still being waited for fall back to `commitStatus`. */
+  close(): void;
+}
+
+/**
+ * How long to wait between attempts: `initialDelayMs * multiplier^(attempt - 1)`, capped at `maxDelayMs`.
+ * With `jitter` on, the actual wait is a random value between zero and that delay.
+ */
+export interface BackoffOptions {
+  initialDelayMs?: number;
+  maxDelayMs?: number;
+  multiplier?: number;
+  jitter?: boolean;
+}
+
+/**
+ * Opt-in retry for transactions that lose a race on the ledger.
+ * Every retry re-endorses with a fresh txId, so the chaincode runs against the latest state.
+ */
+export interface RetryPolicy extends BackoffOptions {
+  /** Total attempts, including the first one. */
+  maxAttempts: number;
+  /** Validation codes worth retrying. Defaults to `MVCC_READ_CONFLICT` and `PHANTOM_READ_CONFLICT`. */
+  retryableCodes?: TxValidationCode[];
+}
+
+/**
+ * Per-phase deadlines, in milliseconds. A phase without one waits as long as the transport lets it.
+ */
+export interface PhaseTimeouts {
+  evaluate?: number;
+  endorse?: number;
+  submit?: number;
+  commitStatus?: number;
+}
+
+export type TransactionPhase = keyof PhaseTimeouts;
+
+/**
+ * One step of a transaction on its way to the ledger, as reported to `onProgress`.
+ * `built` → `signed` → `endorsed` → `submitted` → `committed`, or `failed` at any point.
+ * `committed` means committed as `VALID`; an invalid transaction ends in `failed` with a `CommitError`.
+ * A retry starts over at `built`, with a new txId.
+ */
+export type TransactionProgress =
+  | {
+      readonly stage: "built";
+      readonly txId: string;
+      readonly timestamp: Date;
+    }
+  | {
+      readonly stage: "signed";
+      readonly txId: string;
+      readonly timestamp: Date;
+    }
+  | {
+      readonly stage: "endorsed";
+      readonly txId: string;
+      readonly timestamp: Date;
+      /** MSP IDs of the organizations whose peers endorsed it. */
+      readonly endorsingOrganizations: string[];
+    }
+  | {
+      /** The orderer accepted it. Not in a block yet. */
+      readonly stage: "submitted";
+      readonly txId: string;
+      readonly timestamp: Date;
+    }
+  | {
+      readonly stage: "committed";
+      readonly txId: string;
+      readonly timestamp: Date;
+      readonly blockNumber: bigint;
+    }
+  | {
+      readonly stage: "failed";
+      /** Missing if it failed before there was a txId. */
+      readonly txId?: string;
+      readonly timestamp: Date;
+      readonly error: Error;
+    };
+
+export type TransactionStage = TransactionProgress["stage"];
+
+export interface RequestOptions {
+  /** Cancels whatever call is in flight. */
+  signal?: AbortSignal;
+  timeouts?: PhaseTimeouts;
+  /** Overrides the client's codec for this call's arguments and result. */
+  codec?: PayloadCodec;
+  /** For submits: wait for the commit through this tracker instead of a `commitStatus` call. */
+  commitTracker?: CommitTracker;
+  /**
+   * For submits: called at every step of the transaction's way to the ledger. See `TransactionProgress`.
+   * If it throws, the call stops and fails with a `ProgressListenerError`.
+   */
+  onProgress?: (progress: TransactionProgress) => void;
+}
+
+export interface SubmitAndCommitOptions extends RequestOptions {
+  retry?: RetryPolicy;
+}
+
+export interface SubmitBatchOptions extends SubmitAndCommitOptions {
+  /** How many transactions are in flight at once. Defaults to 8. */
+  concurrency?: number;
+}
+
+export interface BatchSummary {
+  readonly succeeded: number;
+  /** Failed for any reason other than a read conflict. */
+  readonly failed: number;
+  /** Failed to commit with `MVCC_READ_CONFLICT` or `PHANTOM_READ_CONFLICT` (after any retries). */
+  readonly conflicted: number;
+}
+
+export interface BatchSubmission {
+  /** One per proposal, in the same order. */
+  readonly results: Result<CommittedTransaction>[];
+  readonly summary: BatchSummary;
+}
+
+export interface TransactionAttempt {
+  readonly txId: string;
+  readonly code: TxValidationCode;
+  readonly blockNumber: bigint;
+}
+
+export interface SubmittedTransactionWithCommit {
+  readonly txId: string;
+  /** The chaincode result from the endorsement simulation. */
+  readonly result: any;
+  readonly commit: Commit;
+}
+
+export interface CommittedTransaction {
+  readonly txId: string;
+  readonly result: any;
+  readonly blockNumber: bigint;
+  /** Every attempt made, in order. Just one unless a retry policy kicked in. */
+  readonly attempts: TransactionAttempt[];
 }
 
 export interface SubmittedTransaction {
@@ -43,7 +359,32 @@ export interface SubmittedTransaction {
   readonly status: string;
 }
 
+/**
+ * Anything a contract function can take as an argument. Strings and bytes go to the chaincode as they are,
+ * everything else is encoded with the codec.
+ */
+export type ContractArg =
+  string | Uint8Array | number | boolean | bigint | null | object;
+
+/**
+ * Describes the functions of a chaincode so `Contract` can type-check their arguments and results.
+ * Write it as a plain interface, one method per chaincode function:
+ *
+ * ```ts
+ * interface AssetContract {
+ *   ReadAsset(id: string): Asset;
+ *   CreateAsset(id: string, color: string, size: number): void;
+ * }
+ * ```
+ */
+export type ContractFunctions<T = any> = {
+  [K in keyof T]: (...args: any[]) => unknown;
+};
 
+export interface ContractOptions {
+  /** Overrides the client's codec for every call made through the contract. */
+  codec?: PayloadCodec;
+}
 
 export interface EventService {
   mspId: string;
@@ -51,19 +392,71 @@ export interface EventService {
   chaincodeName: string;
 }
 
-export interface BlockEventParams {
+export interface BlockEventParams extends EventStreamOptions {
   mspId: string;
   channelName: string;
-  targetPeer: string;
-  targetHostname: string;
-  startBlock?: number;
-  stopBlock?: number;
+  /**
+   * The peer (`host:port`) the WebSocket deliver proxy should connect to, and the hostname its TLS
+   * certificate is for. Only needed with a `wsUrl`; over the Gateway the blocks come from the Gateway's peer.
+   */
+  targetPeer?: string;
+  targetHostname?: string;
+  /** A block number, or `"oldest"` (the genesis block) or `"newest"` (the default). */
+  startBlock?: bigint | number | "oldest" | "newest";
+  /** The last block to deliver, included. The stream finishes once it's been yielded. Leave it out to keep listening. */
+  stopBlock?: bigint | number;
+  /**
+   * What the peer does when asked for a block it doesn't have yet: wait for it (`"blockUntilReady"`, the default)
+   * or fail the stream right away (`"failIfNotReady"`), which is what you want to backfill up to the current height.
+   */
+  seekBehavior?: "blockUntilReady" | "failIfNotReady";
+  /**
+   * `"strict"` (the default) ends the stream on any problem; `"bestEffort"` asks the peer to carry on
+   * delivering blocks even if, say, their signatures don't satisfy the channel's block validation policy.
+   */
+  seekErrorResponse?: "strict" | "bestEffort";
 }
 
-export interface ChaincodeEventParams {
+export interface ChaincodeEventParams extends EventStreamOptions {
   mspId: string;
   channelName: string;
   chaincodeName: string;
+  /**
+   * The block to start reading events from. Leave it out to start with the next block committed; with a
+   * `reconnect` policy that's the chain's height when the stream first connects, asked of `qscc`.
+   */
+  startBlock?: bigint | number;
+  /** Skips the events in `startBlock` up to and including this transaction. */
+  afterTransactionId?: string;
+  /**
+   * Resume from the saved checkpoint (which wins over `startBlock`/`afterTransactionId`), and save a new one
+   * each time a transaction's events have been handed over and processed. With one, each response holds the
+   * events of a single transaction.
+   */
+  checkpointer?: Checkpointer;
+}
+
+/** What identifies a shared chaincode event stream. Shared streams always start at the next block. */
+export type SharedChaincodeEventParams = Pick<
+  ChaincodeEventParams,
+  "mspId" | "channelName" | "chaincodeName"
+>;
+
+/** What identifies a shared block event stream. Shared streams always start at the newest block. */
+export type SharedBlockEventParams = Pick<
+  BlockEventParams,
+  "mspId" | "channelName" | "targetPeer" | "targetHostname"
+>;
+
+/**
+ * One chaincode event with its payload decoded. See `FabricClient.decodeChaincodeEvents`.
+ */
+export interface DecodedChaincodeEvent<T = any> {
+  readonly blockNumber: bigint;
+  readonly txId: string;
+  readonly chaincodeName: string;
+  readonly eventName: string;
+  readonly payload: T;
 }
 
 export type { ChaincodeEventsResponse, FilteredBlock };
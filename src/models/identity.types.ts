@@ -10,6 +10,8 @@ export type Result<T, E = Error> = Success<T> | Failure<E>;
 export interface AppIdentity {
   readonly cert: string;
   readonly sign: (dataToSign: Uint8Array) => Promise<Uint8Array>;
+  /** Signs several payloads in one go, in order. Optional; batch operations use it when it's there. */
+  readonly signBatch?: (dataToSign: Uint8Array[]) => Promise<Uint8Array[]>;
 }
 
 export interface PasswordCreateOptions {
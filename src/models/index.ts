@@ -1,3 +1,6 @@
 export * from "./identity.types";
 export * from "./fabric.types";
 export * from "./events.types";
+export * from "./transaction.types";
+export * from "./block.types";
+export * from "./lifecycle.types";
@@ -0,0 +1,59 @@
+import type { MessageInitShape } from "@bufbuild/protobuf";
+import type {
+  CheckCommitReadinessResult,
+  QueryApprovedChaincodeDefinitionResult,
+  QueryChaincodeDefinitionsResult,
+  QueryInstalledChaincodesResult,
+} from "../generated_protos/peer/lifecycle/lifecycle_pb";
+import type { ApplicationPolicySchema } from "../generated_protos/peer/policy_pb";
+import type { CollectionConfigPackageSchema } from "../generated_protos/peer/collection_pb";
+import type { SubmitAndCommitOptions } from "./fabric.types";
+
+/**
+ * A chaincode definition, as orgs approve it and the channel commits it. Every org has to approve the exact
+ * same definition (the package aside), so build it once and pass the same object around.
+ */
+export interface ChaincodeDefinition {
+  name: string;
+  version: string;
+  /** 1 for the first definition, then one more for every upgrade. */
+  sequence: bigint | number;
+  /** Leave it out for the channel's default, the `/Channel/Application/Endorsement` policy. */
+  endorsementPolicy?: MessageInitShape<typeof ApplicationPolicySchema>;
+  /** Private data collections, if the chaincode uses any. */
+  collections?: MessageInitShape<typeof CollectionConfigPackageSchema>;
+  /** Whether `Init` has to run before anything else. */
+  initRequired?: boolean;
+  endorsementPlugin?: string;
+  validationPlugin?: string;
+}
+
+export interface ChaincodeApproval extends ChaincodeDefinition {
+  /**
+   * The installed package your org's peers run the chaincode from, as `queryInstalledChaincodes` lists it.
+   * Leave it out to approve the definition without running the chaincode yourself.
+   */
+  packageId?: string;
+}
+
+/** Which of your org's approvals to look up. */
+export interface ApprovedChaincodeDefinitionQuery {
+  name: string;
+  /** Leave it out for the latest one your org approved. */
+  sequence?: bigint | number;
+}
+
+export interface LifecycleSubmitOptions extends SubmitAndCommitOptions {
+  /**
+   * The orgs whose peers endorse the commit. Leave it empty and the Gateway picks enough of them to satisfy
+   * the channel's `LifecycleEndorsement` policy.
+   */
+  endorsingOrganizations?: string[];
+}
+
+export type {
+  CheckCommitReadinessResult,
+  QueryApprovedChaincodeDefinitionResult,
+  QueryChaincodeDefinitionsResult,
+  QueryInstalledChaincodesResult,
+};
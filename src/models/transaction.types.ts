@@ -0,0 +1,109 @@
+/**
+ * The shapes `inspectPreparedTransaction` and `decodeBlock` decode transaction envelopes into.
+ * Everything here is plain data: bytes are hex strings, 64-bit numbers are decimal strings,
+ * and chaincode values are whatever the codec made of them (or `autoCodec`'s guess, where the codec gave up).
+ * So `JSON.stringify` just works.
+ */
+
+export interface DecodedIdentity {
+  readonly mspId: string;
+  /** The PEM certificate, as the MSP serialized it. */
+  readonly certificate: string;
+}
+
+export interface DecodedChannelHeader {
+  /** The `HeaderType` name, e.g. `"ENDORSER_TRANSACTION"`. */
+  readonly type: string;
+  readonly version: number;
+  /** ISO 8601. Missing if the client didn't set one. */
+  readonly timestamp?: string;
+  readonly channelId: string;
+  readonly txId: string;
+  readonly epoch: string;
+  readonly tlsCertHash: string;
+}
+
+export interface DecodedKeyVersion {
+  readonly blockNumber: string;
+  readonly txNumber: string;
+}
+
+export interface DecodedRead {
+  readonly key: string;
+  /** Missing if the key didn't exist when it was read. */
+  readonly version?: DecodedKeyVersion;
+}
+
+export interface DecodedWrite {
+  readonly key: string;
+  readonly isDelete: boolean;
+  readonly value: any;
+}
+
+export interface DecodedHashedRead {
+  readonly keyHash: string;
+  readonly version?: DecodedKeyVersion;
+}
+
+export interface DecodedHashedWrite {
+  readonly keyHash: string;
+  readonly isDelete: boolean;
+  readonly valueHash: string;
+}
+
+/**
+ * Private data never leaves the endorsing peers in the clear; the transaction only carries hashes.
+ */
+export interface DecodedCollectionHashes {
+  readonly collectionName: string;
+  readonly pvtRwsetHash: string;
+  readonly hashedReads: DecodedHashedRead[];
+  readonly hashedWrites: DecodedHashedWrite[];
+}
+
+export interface DecodedNamespaceReadWriteSet {
+  /** The chaincode (or system namespace, like `_lifecycle`) the keys belong to. */
+  readonly namespace: string;
+  readonly reads: DecodedRead[];
+  readonly writes: DecodedWrite[];
+  readonly rangeQueryCount: number;
+  readonly privateData: DecodedCollectionHashes[];
+}
+
+export interface DecodedChaincodeEventData {
+  readonly chaincodeName: string;
+  readonly txId: string;
+  readonly eventName: string;
+  readonly payload: any;
+}
+
+export interface DecodedEndorsement {
+  readonly endorser: DecodedIdentity;
+  readonly signature: string;
+}
+
+export interface DecodedChaincodeAction {
+  readonly chaincodeName: string;
+  readonly chaincodeVersion: string;
+  readonly functionName: string;
+  readonly args: string[];
+  readonly response: {
+    readonly status: number;
+    readonly message: string;
+    readonly payload: any;
+  };
+  readonly readWriteSets: DecodedNamespaceReadWriteSet[];
+  /** Missing if the chaincode didn't set one. A transaction carries at most one event. */
+  readonly event?: DecodedChaincodeEventData;
+  readonly endorsements: DecodedEndorsement[];
+}
+
+export interface InspectedTransaction {
+  readonly channelHeader: DecodedChannelHeader;
+  readonly creator: DecodedIdentity;
+  readonly nonce: string;
+  /** One per action. An endorser transaction built by this client always has exactly one. */
+  readonly actions: DecodedChaincodeAction[];
+  /** Empty until the transaction is signed. */
+  readonly signature: string;
+}
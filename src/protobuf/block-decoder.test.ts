@@ -0,0 +1,211 @@
+import { describe, it, expect } from "vitest";
+import { create, fromBinary, toBinary } from "@bufbuild/protobuf";
+import { decodeBlock, decodeBlockAndPrivateData, decodeProcessedTransaction } from "./block-decoder";
+import { createSerializedIdentityBytes } from "./builder";
+import {
+  BlockSchema,
+  ChannelHeaderSchema,
+  EnvelopeSchema,
+  HeaderSchema,
+  HeaderType,
+  MetadataSchema,
+  OrdererBlockMetadataSchema,
+  PayloadSchema,
+  SignatureHeaderSchema,
+} from "../generated_protos/common/common_pb";
+import {
+  ChaincodeActionPayloadSchema,
+  ProcessedTransactionSchema,
+  TransactionSchema,
+  TxValidationCode,
+} from "../generated_protos/peer/transaction_pb";
+import { ChaincodeActionSchema } from "../generated_protos/peer/proposal_pb";
+import { ProposalResponsePayloadSchema } from "../generated_protos/peer/proposal_response_pb";
+import { TxReadWriteSetSchema } from "../generated_protos/ledger/rwset/rwset_pb";
+import { BlockAndPrivateDataSchema } from "../generated_protos/peer/events_pb";
+import { KVRWSetSchema } from "../generated_protos/ledger/rwset/kvrwset/kv_rwset_pb";
+import { jsonCodec } from "../codecs";
+
+const ORDERER_CERT = "-----BEGIN CERTIFICATE-----\norderer\n-----END CERTIFICATE-----\n";
+
+function buildEnvelope(txId: string, type: HeaderType): Uint8Array {
+  const payload = create(PayloadSchema, {
+    header: create(HeaderSchema, {
+      channelHeader: toBinary(
+        ChannelHeaderSchema,
+        create(ChannelHeaderSchema, { type, channelId: "mychannel", txId }),
+      ),
+      signatureHeader: toBinary(SignatureHeaderSchema, create(SignatureHeaderSchema, {})),
+    }),
+  });
+  return toBinary(EnvelopeSchema, create(EnvelopeSchema, { payload: toBinary(PayloadSchema, payload) }));
+}
+
+/** An endorser transaction that writes `value` to `key` in the `basic` namespace. */
+function buildWriteEnvelope(txId: string, key: string, value: Uint8Array): Uint8Array {
+  const results = create(TxReadWriteSetSchema, {
+    nsRwset: [{ namespace: "basic", rwset: toBinary(KVRWSetSchema, create(KVRWSetSchema, { writes: [{ key, value }] })) }],
+  });
+  const responsePayload = create(ProposalResponsePayloadSchema, {
+    extension: toBinary(ChaincodeActionSchema, create(ChaincodeActionSchema, { results: toBinary(TxReadWriteSetSchema, results) })),
+  });
+  const actionPayload = create(ChaincodeActionPayloadSchema, {
+    action: { proposalResponsePayload: toBinary(ProposalResponsePayloadSchema, responsePayload) },
+  });
+  const envelope = fromBinary(EnvelopeSchema, buildEnvelope(txId, HeaderType.ENDORSER_TRANSACTION));
+  const payload = fromBinary(PayloadSchema, envelope.payload);
+  payload.data = toBinary(
+    TransactionSchema,
+    create(TransactionSchema, { actions: [{ payload: toBinary(ChaincodeActionPayloadSchema, actionPayload) }] }),
+  );
+  return toBinary(EnvelopeSchema, create(EnvelopeSchema, { payload: toBinary(PayloadSchema, payload) }));
+}
+
+describe("decodeBlock", () => {
+  it("should decode the header, each envelope with its validation code, and the metadata", () => {
+    const signatures = create(MetadataSchema, {
+      value: toBinary(
+        OrdererBlockMetadataSchema,
+        create(OrdererBlockMetadataSchema, { lastConfig: { index: 3n } }),
+      ),
+      signatures: [
+        {
+          signatureHeader: toBinary(
+            SignatureHeaderSchema,
+            create(SignatureHeaderSchema, {
+              creator: createSerializedIdentityBytes("OrdererMSP", ORDERER_CERT),
+              nonce: new Uint8Array([9]),
+            }),
+          ),
+          signature: new Uint8Array([0x30, 0x44]),
+        },
+      ],
+    });
+    const blockBytes = toBinary(
+      BlockSchema,
+      create(BlockSchema, {
+        header: { number: 7n, previousHash: new Uint8Array([0xab]), dataHash: new Uint8Array([0xcd]) },
+        data: {
+          data: [
+            buildEnvelope("tx1", HeaderType.MESSAGE),
+            buildEnvelope("tx2", HeaderType.MESSAGE),
+          ],
+        },
+        metadata: {
+          metadata: [
+            toBinary(MetadataSchema, signatures),
+            new Uint8Array(),
+            new Uint8Array([TxValidationCode.VALID, TxValidationCode.MVCC_READ_CONFLICT]),
+            new Uint8Array(),
+            toBinary(MetadataSchema, create(MetadataSchema, { value: new Uint8Array([0xef]) })),
+          ],
+        },
+      }),
+    );
+
+    const block = decodeBlock(blockBytes);
+
+    expect(block.header).toEqual({ number: "7", previousHash: "ab", dataHash: "cd" });
+    expect(block.transactions.map((tx) => [tx.channelHeader.txId, tx.validationCode, tx.isValid])).toEqual([
+      ["tx1", "VALID", true],
+      ["tx2", "MVCC_READ_CONFLICT", false],
+    ]);
+    expect(block.transactions[0].channelHeader.type).toBe("MESSAGE");
+    expect(block.transactions[0].actions).toEqual([]);
+    expect(block.metadata).toEqual({
+      signatures: [
+        { signer: { mspId: "OrdererMSP", certificate: ORDERER_CERT }, nonce: "09", signature: "3044" },
+      ],
+      lastConfigIndex: "3",
+      validationCodes: ["VALID", "MVCC_READ_CONFLICT"],
+      commitHash: "ef",
+    });
+    expect(JSON.parse(JSON.stringify(block))).toEqual(block);
+  });
+
+  it("should keep going when the codec can't read a value, falling back to the raw bytes as hex", () => {
+    const block = create(BlockSchema, {
+      header: { number: 12n },
+      data: {
+        data: [
+          buildWriteEnvelope("tx1", "asset1", new TextEncoder().encode('{"Size":10}')),
+          buildWriteEnvelope("tx2", "namespaces/fields/basic/Sequence", new Uint8Array([0x08, 0x96, 0x01])),
+        ],
+      },
+    });
+
+    const decoded = decodeBlock(block, jsonCodec);
+
+    expect(decoded.transactions.map((tx) => tx.actions[0].readWriteSets[0].writes[0].value)).toEqual([
+      { Size: 10 },
+      "(binary) 0x089601",
+    ]);
+  });
+});
+
+describe("decodeBlockAndPrivateData", () => {
+  it("should decode the private data of each transaction alongside the block", () => {
+    const privateWrites = create(KVRWSetSchema, {
+      writes: [{ key: "secret1", value: new TextEncoder().encode('{"price":42}') }],
+    });
+    const blockAndPrivateData = create(BlockAndPrivateDataSchema, {
+      block: create(BlockSchema, {
+        header: { number: 8n },
+        data: { data: [buildEnvelope("tx1", HeaderType.MESSAGE), buildEnvelope("tx2", HeaderType.MESSAGE)] },
+      }),
+      privateDataMap: {
+        "1": {
+          nsPvtRwset: [
+            {
+              namespace: "basic",
+              collectionPvtRwset: [
+                { collectionName: "prices", rwset: toBinary(KVRWSetSchema, privateWrites) },
+              ],
+            },
+          ],
+        },
+      },
+    });
+
+    const decoded = decodeBlockAndPrivateData(blockAndPrivateData, jsonCodec);
+
+    expect(decoded.header.number).toBe("8");
+    expect(decoded.transactions).toHaveLength(2);
+    expect(decoded.privateData).toEqual([
+      {
+        transactionIndex: 1,
+        namespaces: [
+          {
+            namespace: "basic",
+            collections: [
+              {
+                collectionName: "prices",
+                reads: [],
+                writes: [{ key: "secret1", isDelete: false, value: { price: 42 } }],
+                rangeQueryCount: 0,
+              },
+            ],
+          },
+        ],
+      },
+    ]);
+  });
+});
+
+describe("decodeProcessedTransaction", () => {
+  it("should decode the envelope along with the validation code it was committed with", () => {
+    const bytes = toBinary(
+      ProcessedTransactionSchema,
+      create(ProcessedTransactionSchema, {
+        transactionEnvelope: fromBinary(EnvelopeSchema, buildEnvelope("tx9", HeaderType.ENDORSER_TRANSACTION)),
+        validationCode: TxValidationCode.PHANTOM_READ_CONFLICT,
+      }),
+    );
+
+    const transaction = decodeProcessedTransaction(bytes);
+
+    expect(transaction.channelHeader.txId).toBe("tx9");
+    expect(transaction.validationCode).toBe("PHANTOM_READ_CONFLICT");
+    expect(transaction.isValid).toBe(false);
+  });
+});
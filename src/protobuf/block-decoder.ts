@@ -0,0 +1,203 @@
+import { fromBinary } from "@bufbuild/protobuf";
+import type {
+  DecodedBlock,
+  DecodedBlockAndPrivateData,
+  DecodedBlockMetadata,
+  DecodedBlockTransaction,
+  DecodedChainInfo,
+  DecodedTransactionPrivateData,
+  PayloadCodec,
+} from "../models";
+import {
+  BlockMetadataIndex,
+  BlockSchema,
+  LastConfigSchema,
+  MetadataSchema,
+  OrdererBlockMetadataSchema,
+  SignatureHeaderSchema,
+  type Block,
+  type Metadata,
+} from "../generated_protos/common/common_pb";
+import { BlockchainInfoSchema } from "../generated_protos/common/ledger_pb";
+import {
+  ProcessedTransactionSchema,
+  TxValidationCode,
+} from "../generated_protos/peer/transaction_pb";
+import type { BlockAndPrivateData } from "../generated_protos/peer/events_pb";
+import type { TxPvtReadWriteSet } from "../generated_protos/ledger/rwset/rwset_pb";
+import { autoCodec } from "../codecs/payload-codecs";
+import { bytesToHexString } from "../utils/utils";
+import {
+  decodeEnvelope,
+  decodeIdentity,
+  decodeKvRwSet,
+} from "./transaction-decoder";
+
+function readMetadata(
+  block: Block,
+  index: BlockMetadataIndex,
+): Metadata | undefined {
+  const bytes = block.metadata?.metadata[index];
+  return bytes && bytes.length > 0
+    ? fromBinary(MetadataSchema, bytes)
+    : undefined;
+}
+
+/**
+ * Q: Where is the last config index? There's a `LAST_CONFIG` slot right there.
+ * A: There is, and since Fabric 1.4.x nobody writes to it. The orderer puts it in the value of the
+ *    `SIGNATURES` metadata instead. We look there first and fall back to the old slot for old blocks.
+ */
+function decodeBlockMetadata(block: Block): DecodedBlockMetadata {
+  const signatures = readMetadata(block, BlockMetadataIndex.SIGNATURES);
+
+  let lastConfigIndex: bigint | undefined;
+  if (signatures && signatures.value.length > 0) {
+    lastConfigIndex = fromBinary(OrdererBlockMetadataSchema, signatures.value)
+      .lastConfig?.index;
+  }
+  if (lastConfigIndex === undefined) {
+    const lastConfig = readMetadata(block, BlockMetadataIndex.LAST_CONFIG);
+    if (lastConfig && lastConfig.value.length > 0) {
+      lastConfigIndex = fromBinary(LastConfigSchema, lastConfig.value).index;
+    }
+  }
+
+  // The transactions filter is the one slot that isn't a `Metadata` message: it's one raw byte per transaction.
+  const validationFlags =
+    block.metadata?.metadata[BlockMetadataIndex.TRANSACTIONS_FILTER] ??
+    new Uint8Array();
+
+  return {
+    signatures: (signatures?.signatures ?? []).map((metadataSignature) => {
+      const header = fromBinary(
+        SignatureHeaderSchema,
+        metadataSignature.signatureHeader,
+      );
+      return {
+        signer: decodeIdentity(header.creator),
+        nonce: bytesToHexString(header.nonce),
+        signature: bytesToHexString(metadataSignature.signature),
+      };
+    }),
+    lastConfigIndex: lastConfigIndex?.toString(),
+    validationCodes: Array.from(
+      validationFlags,
+      (code) => TxValidationCode[code] ?? String(code),
+    ),
+    commitHash: bytesToHexString(
+      readMetadata(block, BlockMetadataIndex.COMMIT_HASH)?.value ??
+        new Uint8Array(),
+    ),
+  };
+}
+
+/**
+ * Q: How do I read a block?
+ * A: Give it to this. Raw bytes (as the peer's Deliver service or `qscc` sends them) or an already parsed `Block`.
+ *    You get the header, every transaction fully decoded (channel header, creator, chaincode actions, read/write
+ *    sets, events, endorsements) along with the validation code the peer gave it, and the block metadata
+ *    (orderer signatures, last config index, commit hash). Chaincode values go through the codec, and one
+ *    it can't read (a `_lifecycle` protobuf write in a JSON channel) falls back to `autoCodec`'s guess.
+ *    Everything comes out as plain data, ready for a block explorer or an audit log.
+ */
+export function decodeBlock(
+  block: Block | Uint8Array,
+  codec: PayloadCodec = autoCodec,
+): DecodedBlock {
+  const parsedBlock = ArrayBuffer.isView(block)
+    ? fromBinary(BlockSchema, block)
+    : block;
+  const metadata = decodeBlockMetadata(parsedBlock);
+
+  return {
+    header: {
+      number: (parsedBlock.header?.number ?? 0n).toString(),
+      previousHash: bytesToHexString(
+        parsedBlock.header?.previousHash ?? new Uint8Array(),
+      ),
+      dataHash: bytesToHexString(
+        parsedBlock.header?.dataHash ?? new Uint8Array(),
+      ),
+    },
+    transactions: (parsedBlock.data?.data ?? []).map((envelope, index) => {
+      const validationCode =
+        metadata.validationCodes[index] ??
+        TxValidationCode[TxValidationCode.NOT_VALIDATED];
+      return {
+        ...decodeEnvelope(envelope, codec),
+        validationCode,
+        isValid: validationCode === TxValidationCode[TxValidationCode.VALID],
+      };
+    }),
+    metadata,
+  };
+}
+
+function decodePrivateData(
+  privateDataMap: { [transactionIndex: string]: TxPvtReadWriteSet },
+  codec: PayloadCodec,
+): DecodedTransactionPrivateData[] {
+  return Object.entries(privateDataMap)
+    .map(([transactionIndex, txPvtRwSet]) => ({
+      transactionIndex: Number(transactionIndex),
+      namespaces: txPvtRwSet.nsPvtRwset.map((ns) => ({
+        namespace: ns.namespace,
+        collections: ns.collectionPvtRwset.map((collection) => ({
+          collectionName: collection.collectionName,
+          ...decodeKvRwSet(collection.rwset, codec),
+        })),
+      })),
+    }))
+    .sort((a, b) => a.transactionIndex - b.transactionIndex);
+}
+
+/**
+ * Q: And the private data that comes with a block from `DeliverWithPrivateData`?
+ * A: Same as `decodeBlock`, plus the cleartext private writes and reads, keyed by the index of the
+ *    transaction they belong to. The block itself only carries their hashes.
+ */
+export function decodeBlockAndPrivateData(
+  blockAndPrivateData: BlockAndPrivateData,
+  codec: PayloadCodec = autoCodec,
+): DecodedBlockAndPrivateData {
+  if (!blockAndPrivateData.block) {
+    throw new Error("The deliver response has no block.");
+  }
+  return {
+    ...decodeBlock(blockAndPrivateData.block, codec),
+    privateData: decodePrivateData(blockAndPrivateData.privateDataMap, codec),
+  };
+}
+
+/** Decodes `qscc`'s `GetChainInfo` response: the ledger height and the hashes of its last two blocks. */
+export function decodeChainInfo(bytes: Uint8Array): DecodedChainInfo {
+  const info = fromBinary(BlockchainInfoSchema, bytes);
+  return {
+    height: info.height.toString(),
+    currentBlockHash: bytesToHexString(info.currentBlockHash),
+    previousBlockHash: bytesToHexString(info.previousBlockHash),
+  };
+}
+
+/**
+ * Decodes `qscc`'s `GetTransactionByID` response, a `ProcessedTransaction`: the envelope as it sits in its
+ * block, and the validation code the committing peer gave it. Same shape as a transaction from `decodeBlock`.
+ */
+export function decodeProcessedTransaction(
+  bytes: Uint8Array,
+  codec: PayloadCodec = autoCodec,
+): DecodedBlockTransaction {
+  const processed = fromBinary(ProcessedTransactionSchema, bytes);
+  if (!processed.transactionEnvelope) {
+    throw new Error("The processed transaction has no envelope.");
+  }
+  const validationCode =
+    TxValidationCode[processed.validationCode] ??
+    String(processed.validationCode);
+  return {
+    ...decodeEnvelope(processed.transactionEnvelope, codec),
+    validationCode,
+    isValid: validationCode === TxValidationCode[TxValidationCode.VALID],
+  };
+}
@@ -1,6 +1,7 @@
 
 import { describe, it, expect } from "vitest";
-import { buildProposalPayload } from "./builder";
+import { buildProposalPayload, computeProposalHash, computeTlsCertHash } from "./builder";
+import { sha256 } from "@noble/hashes/sha2";
 import type { ProposalParams } from "../models";
 import { fromBinary } from "@bufbuild/protobuf";
 import { ProposalSchema, ChaincodeProposalPayloadSchema, ChaincodeHeaderExtensionSchema } from "../generated_protos/peer/proposal_pb";
@@ -113,4 +114,110 @@ describe("buildProposalPayload", () => {
     expect(Array.from(input!.args[1])).toEqual(Array.from(arg1));
     expect(Array.from(input!.args[2])).toEqual(Array.from(arg2));
   });
+
+  it("should carry transient data in the proposal payload", () => {
+    // --- 1. ARRANGE ---
+    const secret = new Uint8Array([9, 8, 7]);
+    const params: ProposalParams = {
+      mspId: "Org1MSP",
+      channelName: "mychannel",
+      chaincodeName: "mychaincode",
+      functionName: "CreatePrivateAsset",
+      transientData: { asset_properties: '{"id":"asset1"}', raw: secret },
+    };
+
+    // --- 2. ACT ---
+    const proposalPayloadBytes = buildProposalPayload(
+      params,
+      "a_transient_tx_id",
+      utf8Encoder.encode("a_creator"),
+      utf8Encoder.encode("a_nonce"),
+    );
+
+    // --- 3. ASSERT ---
+    const proposal = fromBinary(ProposalSchema, proposalPayloadBytes);
+    const chaincodeProposalPayload = fromBinary(ChaincodeProposalPayloadSchema, proposal.payload);
+
+    expect(Object.keys(chaincodeProposalPayload.TransientMap).sort()).toEqual(["asset_properties", "raw"]);
+    expect(new TextDecoder().decode(chaincodeProposalPayload.TransientMap.asset_properties)).toBe('{"id":"asset1"}');
+    expect(Array.from(chaincodeProposalPayload.TransientMap.raw)).toEqual(Array.from(secret));
+  });
+});
+
+/**
+ * Test Suite for: computeProposalHash
+ *
+ * Purpose:
+ * Peers hash a proposal without its transient map, so two proposals that differ only in
+ * transient data must produce the same hash.
+ */
+describe("computeProposalHash", () => {
+  const baseParams: ProposalParams = {
+    mspId: "Org1MSP",
+    channelName: "mychannel",
+    chaincodeName: "mychaincode",
+    functionName: "CreatePrivateAsset",
+    args: ["asset1"],
+  };
+  const txId = "a_hash_tx_id";
+  const nonce = utf8Encoder.encode("a_hash_nonce");
+  const creatorBytes = utf8Encoder.encode("a_hash_creator");
+
+  it("should ignore the transient map", () => {
+    const withoutTransient = buildProposalPayload(baseParams, txId, creatorBytes, nonce);
+    const withTransient = buildProposalPayload(
+      { ...baseParams, transientData: { secret: "top-secret" } },
+      txId,
+      creatorBytes,
+      nonce,
+    );
+
+    expect(withTransient).not.toEqual(withoutTransient);
+    expect(Array.from(computeProposalHash(withTransient))).toEqual(
+      Array.from(computeProposalHash(withoutTransient)),
+    );
+  });
+
+  it("should change when the chaincode input changes", () => {
+    const first = buildProposalPayload(baseParams, txId, creatorBytes, nonce);
+    const second = buildProposalPayload({ ...baseParams, args: ["asset2"] }, txId, creatorBytes, nonce);
+
+    expect(Array.from(computeProposalHash(first))).not.toEqual(Array.from(computeProposalHash(second)));
+  });
+});
+
+/**
+ * Test Suite for: computeTlsCertHash
+ *
+ * Purpose:
+ * Fabric binds proposals to a TLS session with the SHA-256 of the client certificate's DER bytes,
+ * so the PEM armour and line breaks must not leak into the hash.
+ */
+describe("computeTlsCertHash", () => {
+  it("should hash the DER bytes of the certificate and end up in the channel header", () => {
+    const der = new Uint8Array([0x30, 0x82, 0x01, 0x0a, 0xde, 0xad, 0xbe, 0xef]);
+    const pem = `-----BEGIN CERTIFICATE-----\n${btoa(String.fromCharCode(...der))}\n-----END CERTIFICATE-----\n`;
+
+    const tlsCertHash = computeTlsCertHash(pem);
+    expect(Array.from(tlsCertHash)).toEqual(Array.from(sha256(der)));
+
+    const params: ProposalParams = {
+      mspId: "Org1MSP",
+      channelName: "mychannel",
+      chaincodeName: "mychaincode",
+      functionName: "invoke",
+    };
+    const proposalPayloadBytes = buildProposalPayload(
+      params,
+      "a_tls_tx_id",
+      utf8Encoder.encode("a_creator"),
+      utf8Encoder.encode("a_nonce"),
+      tlsCertHash,
+    );
+    const proposal = fromBinary(ProposalSchema, proposalPayloadBytes);
+    const header = fromBinary(HeaderSchema, proposal.header);
+    const channelHeader = fromBinary(ChannelHeaderSchema, header.channelHeader);
+
+    expect(Array.from(channelHeader.tlsCertHash)).toEqual(Array.from(tlsCertHash));
+  });
 });
@@ -1,7 +1,8 @@
-import { create, toBinary, protoInt64 } from "@bufbuild/protobuf";
+import { create, fromBinary, toBinary, protoInt64 } from "@bufbuild/protobuf";
 import { sha256 } from "@noble/hashes/sha2";
 
-import type { AppIdentity, ProposalParams } from "../models";
+import type { AppIdentity, PayloadCodec, ProposalParams } from "../models";
+import { autoCodec, encodeChaincodeArg } from "../codecs/payload-codecs";
 
 import {
   ChaincodeProposalPayloadSchema,
@@ -22,7 +23,10 @@ import {
   HeaderSchema,
 } from "../generated_protos/common/common_pb";
 import { SerializedIdentitySchema } from "../generated_protos/msp/identities_pb";
+import { CommitStatusRequestSchema } from "../generated_protos/gateway/gateway_pb";
 import { getRandomValues } from "../crypto/crypto-provider";
+import { isomorphicAtob } from "../utils/isomorphic-helpers";
+import { bytesToHexString } from "../utils/utils";
 
 // --- Helper Functions ---
 
@@ -30,17 +34,40 @@ function stringToUint8Array(str: string): Uint8Array {
   return new TextEncoder().encode(str);
 }
 
-function bytesToHexString(bytes: Uint8Array): string {
-  return (bytes ?? new Uint8Array()).reduce(
-    (s, byte) => s + byte.toString(16).padStart(2, "0"),
-    "",
-  );
-}
-
 function generateNonce(): Uint8Array {
   return getRandomValues(new Uint8Array(24));
 }
 
+function buildTransientMap(
+  transientData: ProposalParams["transientData"],
+): { [key: string]: Uint8Array } {
+  const transientMap: { [key: string]: Uint8Array } = {};
+  for (const [key, value] of Object.entries(transientData ?? {})) {
+    transientMap[key] =
+      typeof value === "string" ? stringToUint8Array(value) : value;
+  }
+  return transientMap;
+}
+
+/**
+ * Q: What is a TLS certificate hash and why would a proposal carry one?
+ * A: When the connection uses mutual TLS, Fabric can bind a proposal to the TLS session it arrived on:
+ *    the channel header carries the SHA-256 of the client's TLS certificate (DER bytes, not the PEM text),
+ *    and the peer checks it against the certificate it actually saw. That stops a proposal captured on one
+ *    connection from being replayed on another.
+ */
+export function computeTlsCertHash(certPem: string): Uint8Array {
+  const base64 = certPem
+    .replace(/-----(BEGIN|END) CERTIFICATE-----/g, "")
+    .replace(/\s+/g, "");
+  const binary = isomorphicAtob(base64);
+  const der = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    der[i] = binary.charCodeAt(i);
+  }
+  return sha256(der);
+}
+
 /**
  * Q: What is a "Serialized Identity" and why do I need to create it?
  * A: In Fabric, you don't just send your name, you send your entire digital identity.
@@ -69,7 +96,7 @@ export function createSerializedIdentityBytes(
  *    This function follows that best practice, giving you a secure and standard `txId`.
  */
 export async function generateTransactionId(
-  identity: AppIdentity,
+  identity: Pick<AppIdentity, "cert">,
   mspId: string,
 ) {
   const nonce = generateNonce();
@@ -99,12 +126,14 @@ export function buildProposalPayload(
   txId: string,
   creatorBytes: Uint8Array,
   nonce: Uint8Array,
+  tlsCertHash?: Uint8Array,
+  codec: PayloadCodec = autoCodec,
 ): Uint8Array {
   const ccId = create(ChaincodeIDSchema, { name: params.chaincodeName });
 
   const argsAsBytes: Uint8Array[] = [stringToUint8Array(params.functionName)];
   (params.args || []).forEach((arg) => {
-    argsAsBytes.push(typeof arg === "string" ? stringToUint8Array(arg) : arg);
+    argsAsBytes.push(encodeChaincodeArg(arg, codec));
   });
 
   const ccInput = create(ChaincodeInputSchema, { args: argsAsBytes });
@@ -125,6 +154,7 @@ export function buildProposalPayload(
 
   const ccProposalPayload = create(ChaincodeProposalPayloadSchema, {
     input: toBinary(ChaincodeInvocationSpecSchema, ccInvocationSpec),
+    TransientMap: buildTransientMap(params.transientData),
   });
 
   const ccHeaderExtension = create(ChaincodeHeaderExtensionSchema, {
@@ -138,6 +168,7 @@ export function buildProposalPayload(
     txId: txId,
     epoch: protoInt64.parse(0), // Epoch is a legacy field, typically 0.
     extension: toBinary(ChaincodeHeaderExtensionSchema, ccHeaderExtension),
+    tlsCertHash: tlsCertHash ?? new Uint8Array(),
   });
 
   const signatureHeader = create(SignatureHeaderSchema, {
@@ -157,3 +188,48 @@ export function buildProposalPayload(
 
   return toBinary(ProposalSchema, proposal);
 }
+
+/**
+ * Builds the (still unsigned) request the Gateway's `commitStatus` endpoint expects.
+ * The signature goes over these exact bytes.
+ */
+export function buildCommitStatusRequest(
+  channelId: string,
+  txId: string,
+  creatorBytes: Uint8Array,
+): Uint8Array {
+  const request = create(CommitStatusRequestSchema, {
+    channelId,
+    transactionId: txId,
+    identity: creatorBytes,
+  });
+  return toBinary(CommitStatusRequestSchema, request);
+}
+
+/**
+ * Q: Why do I need my own proposal hash? Doesn't the peer compute it?
+ * A: It does, and that's exactly why we need to compute it the same way. Every endorsement carries a
+ *    `proposalHash` so the orderer and committers can tie it back to the original proposal. But the transient
+ *    map holds secrets that must never reach the ledger, so the peer hashes the channel header, the signature
+ *    header and the chaincode proposal payload *with the transient map stripped out*.
+ *    This function mirrors that recipe, so you can check an endorsement against the proposal you sent.
+ */
+export function computeProposalHash(proposalBytes: Uint8Array): Uint8Array {
+  const proposal = fromBinary(ProposalSchema, proposalBytes);
+  const header = fromBinary(HeaderSchema, proposal.header);
+  const ccProposalPayload = fromBinary(
+    ChaincodeProposalPayloadSchema,
+    proposal.payload,
+  );
+
+  const payloadWithoutTransient = toBinary(
+    ChaincodeProposalPayloadSchema,
+    create(ChaincodeProposalPayloadSchema, { input: ccProposalPayload.input }),
+  );
+
+  const hash = sha256.create();
+  hash.update(header.channelHeader);
+  hash.update(header.signatureHeader);
+  hash.update(payloadWithoutTransient);
+  return hash.digest();
+}
@@ -0,0 +1,54 @@
+import { describe, it, expect } from "vitest";
+import { fromBinary } from "@bufbuild/protobuf";
+import { createSignedDeliverRequest } from "./deliver-builder";
+import { PayloadSchema } from "../generated_protos/common/common_pb";
+import {
+  SeekInfo_SeekBehavior,
+  SeekInfoSchema,
+} from "../generated_protos/orderer/ab_pb";
+import type { AppIdentity } from "../models";
+
+const identity: AppIdentity = {
+  cert: "-----BEGIN CERTIFICATE-----\nclient\n-----END CERTIFICATE-----\n",
+  sign: async () => new Uint8Array(64).fill(1),
+};
+
+const baseParams = {
+  identity,
+  mspId: "Org1MSP",
+  channelName: "mychannel",
+  targetPeer: "peer0.org1.example.com:7051",
+  targetHostname: "peer0.org1.example.com",
+};
+
+async function seekInfoOf(params: Partial<Parameters<typeof createSignedDeliverRequest>[0]>) {
+  const envelope = await createSignedDeliverRequest({ ...baseParams, ...params });
+  return fromBinary(SeekInfoSchema, fromBinary(PayloadSchema, envelope.payload).data);
+}
+
+describe("createSignedDeliverRequest", () => {
+  it("should seek a bounded range from a numeric start to the stop block", async () => {
+    const seekInfo = await seekInfoOf({ startBlock: 5, stopBlock: 10n, seekBehavior: "failIfNotReady" });
+
+    expect(seekInfo.start?.Type).toMatchObject({ case: "specified", value: { number: 5n } });
+    expect(seekInfo.stop?.Type).toMatchObject({ case: "specified", value: { number: 10n } });
+    expect(seekInfo.behavior).toBe(SeekInfo_SeekBehavior.FAIL_IF_NOT_READY);
+  });
+
+  it("should start from the oldest or newest block and keep going without a stop block", async () => {
+    const fromOldest = await seekInfoOf({ startBlock: "oldest" });
+    const fromNewest = await seekInfoOf({});
+
+    expect(fromOldest.start?.Type.case).toBe("oldest");
+    expect(fromNewest.start?.Type.case).toBe("newest");
+    expect(fromNewest.stop?.Type).toMatchObject({
+      case: "specified",
+      value: { number: BigInt(Number.MAX_SAFE_INTEGER) },
+    });
+    expect(fromNewest.behavior).toBe(SeekInfo_SeekBehavior.BLOCK_UNTIL_READY);
+  });
+
+  it("should reject a stop block before the start block", async () => {
+    await expect(seekInfoOf({ startBlock: 10, stopBlock: 5 })).rejects.toThrow("stopBlock");
+  });
+});
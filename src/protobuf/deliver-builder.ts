@@ -10,8 +10,11 @@ import {
   SignatureHeaderSchema,
 } from "../generated_protos/common/common_pb";
 import {
+  SeekInfo_SeekBehavior,
+  SeekInfo_SeekErrorResponse,
   SeekInfoSchema,
   SeekNewestSchema,
+  SeekOldestSchema,
   SeekPosition,
   SeekPositionSchema,
   SeekSpecifiedSchema,
@@ -20,13 +23,36 @@ import { AppIdentity, BlockEventParams } from "../models";
 import { generateTransactionId } from "./builder";
 import { signEnvelope } from "../crypto/signing";
 
+function toSeekPosition(
+  position: NonNullable<BlockEventParams["startBlock"]>,
+): SeekPosition {
+  if (position === "oldest") {
+    return create(SeekPositionSchema, {
+      Type: { case: "oldest", value: create(SeekOldestSchema, {}) },
+    });
+  }
+  if (position === "newest") {
+    return create(SeekPositionSchema, {
+      Type: { case: "newest", value: create(SeekNewestSchema, {}) },
+    });
+  }
+  return create(SeekPositionSchema, {
+    Type: {
+      case: "specified",
+      value: create(SeekSpecifiedSchema, { number: BigInt(position) }),
+    },
+  });
+}
+
 interface DeliverRequestParams extends BlockEventParams {
   identity: AppIdentity;
   mspId: string;
+  tlsCertHash?: Uint8Array;
 }
 
 /**
  * Builds and signs a `Deliver` request to get a filtered block stream.
+ * The `SeekInfo` inside says where to start and stop, and what to do about blocks that don't exist yet.
  * This request is sent directly to the `DeliverFiltered` service of the Peer (through the WebSocket proxy).
  * @param params The request details.
  * @returns A signed `Envelope` containing the `DELIVER_SEEK_INFO` request.
@@ -39,35 +65,32 @@ export async function createSignedDeliverRequest(
     params.mspId,
   );
 
-  let startPosition: SeekPosition;
-
-  if (typeof params.startBlock === "bigint") {
-    startPosition = create(SeekPositionSchema, {
-      Type: {
-        case: "specified",
-        value: create(SeekSpecifiedSchema, { number: params.startBlock }),
-      },
-    });
-  } else {
-    startPosition = create(SeekPositionSchema, {
-      Type: { case: "newest", value: create(SeekNewestSchema, {}) },
-    });
+  const start = params.startBlock ?? "newest";
+  const stop = params.stopBlock;
+  if (
+    stop !== undefined &&
+    typeof start !== "string" &&
+    BigInt(stop) < BigInt(start)
+  ) {
+    throw new Error(
+      `stopBlock (${stop}) must not be lower than startBlock (${start}).`,
+    );
   }
 
-  // We always request "infinity" for a continuous stream.
-  const stopPosition = create(SeekPositionSchema, {
-    Type: {
-      case: "specified",
-      value: create(SeekSpecifiedSchema, {
-        number: protoInt64.parse(Number.MAX_SAFE_INTEGER.toString()),
-      }),
-    },
-  });
-
   const seekInfo = create(SeekInfoSchema, {
-    start: startPosition,
-    stop: stopPosition,
-    behavior: 0,
+    start: toSeekPosition(start),
+    // No stop block means "infinity", for a continuous stream.
+    stop: toSeekPosition(
+      stop ?? protoInt64.parse(Number.MAX_SAFE_INTEGER.toString()),
+    ),
+    behavior:
+      params.seekBehavior === "failIfNotReady"
+        ? SeekInfo_SeekBehavior.FAIL_IF_NOT_READY
+        : SeekInfo_SeekBehavior.BLOCK_UNTIL_READY,
+    errorResponse:
+      params.seekErrorResponse === "bestEffort"
+        ? SeekInfo_SeekErrorResponse.BEST_EFFORT
+        : SeekInfo_SeekErrorResponse.STRICT,
   });
 
   const channelHeader = create(ChannelHeaderSchema, {
@@ -80,6 +103,7 @@ export async function createSignedDeliverRequest(
       seconds: BigInt(Math.floor(Date.now() / 1000)), // Seconds as BigInt
       nanos: (Date.now() % 1000) * 1_000_000, // Nanoseconds
     }),
+    tlsCertHash: params.tlsCertHash ?? new Uint8Array(),
   });
 
   const signatureHeader = create(SignatureHeaderSchema, {
@@ -1,3 +1,5 @@
 export * from "./builder";
 export * from "./parser";
 export * from "./deliver-builder";
+export * from "./transaction-decoder";
+export * from "./block-decoder";
@@ -1,8 +1,19 @@
-import type { Result } from "../models";
+import { fromBinary } from "@bufbuild/protobuf";
+import type { PayloadCodec, Result } from "../models";
 import { tryCatchSync } from "../utils/try-catch";
 
 import type { EvaluateResponse } from "../generated_protos/gateway/gateway_pb";
-import type { Response as PeerResponse } from "../generated_protos/peer/proposal_response_pb";
+import {
+  ProposalResponsePayloadSchema,
+  type Response as PeerResponse,
+} from "../generated_protos/peer/proposal_response_pb";
+import { PayloadSchema } from "../generated_protos/common/common_pb";
+import {
+  ChaincodeActionPayloadSchema,
+  TransactionSchema,
+} from "../generated_protos/peer/transaction_pb";
+import { ChaincodeActionSchema } from "../generated_protos/peer/proposal_pb";
+import { SerializedIdentitySchema } from "../generated_protos/msp/identities_pb";
 
 /**
  * Parses the payload of a chaincode (which is usually a string or JSON) to a useful format.
@@ -37,7 +48,13 @@ export function decodeChaincodePayload(
  */
 export function parseEvaluateResponse(
   response: EvaluateResponse | undefined,
-): Result<any> {
+  codec: PayloadCodec,
+): Result<{
+  status: number;
+  message: string;
+  payload: Uint8Array;
+  parsedData: any;
+}> {
   return tryCatchSync(() => {
     if (!response || !response.result) {
       throw new Error(
@@ -46,12 +63,63 @@ export function parseEvaluateResponse(
     }
 
     const finalResponse = response.result as PeerResponse;
-    const parsedData = decodeChaincodePayload(finalResponse.payload);
+    const parsedData = codec.decode(finalResponse.payload);
 
     return {
       status: finalResponse.status,
       message: finalResponse.message,
+      payload: finalResponse.payload,
       parsedData: parsedData,
     };
   });
 }
+
+/**
+ * Q: Where is the chaincode's return value in an endorsed transaction?
+ * A: Five boxes deep. Payload -> Transaction -> ChaincodeActionPayload -> ProposalResponsePayload
+ *    -> ChaincodeAction -> Response. This digs it out so `submit` can give you what the chaincode returned.
+ *    It takes the gateway's prepared transaction, which is a serialized `common.Payload` that nobody has
+ *    signed yet — not an Envelope.
+ */
+export function extractChaincodeResult(payloadBytes: Uint8Array): Uint8Array {
+  const payload = fromBinary(PayloadSchema, payloadBytes);
+  const transaction = fromBinary(TransactionSchema, payload.data);
+  const action = transaction.actions[0];
+  if (!action) {
+    return new Uint8Array();
+  }
+  const actionPayload = fromBinary(
+    ChaincodeActionPayloadSchema,
+    action.payload,
+  );
+  const responsePayload = fromBinary(
+    ProposalResponsePayloadSchema,
+    actionPayload.action?.proposalResponsePayload ?? new Uint8Array(),
+  );
+  const chaincodeAction = fromBinary(
+    ChaincodeActionSchema,
+    responsePayload.extension,
+  );
+  return chaincodeAction.response?.payload ?? new Uint8Array();
+}
+
+/**
+ * The MSP IDs of the organizations whose peers endorsed a prepared transaction (the gateway's
+ * serialized `common.Payload`), without repeats.
+ */
+export function extractEndorsingOrganizations(
+  payloadBytes: Uint8Array,
+): string[] {
+  const payload = fromBinary(PayloadSchema, payloadBytes);
+  const transaction = fromBinary(TransactionSchema, payload.data);
+  const mspIds = transaction.actions.flatMap((action) =>
+    (
+      fromBinary(ChaincodeActionPayloadSchema, action.payload).action
+        ?.endorsements ?? []
+    ).map(
+      (endorsement) =>
+        fromBinary(SerializedIdentitySchema, endorsement.endorser).mspid,
+    ),
+  );
+  return [...new Set(mspIds)];
+}
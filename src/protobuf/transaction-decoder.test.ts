@@ -0,0 +1,183 @@
+import { describe, it, expect } from "vitest";
+import { create, toBinary } from "@bufbuild/protobuf";
+import { timestampFromDate } from "@bufbuild/protobuf/wkt";
+import { decodePreparedTransaction } from "./transaction-decoder";
+import { extractChaincodeResult } from "./parser";
+import { createSerializedIdentityBytes } from "./builder";
+import { jsonCodec } from "../codecs";
+import {
+  ChannelHeaderSchema,
+  HeaderSchema,
+  HeaderType,
+  PayloadSchema,
+  SignatureHeaderSchema,
+} from "../generated_protos/common/common_pb";
+import {
+  ChaincodeActionPayloadSchema,
+  ChaincodeEndorsedActionSchema,
+  TransactionActionSchema,
+  TransactionSchema,
+} from "../generated_protos/peer/transaction_pb";
+import {
+  ChaincodeActionSchema,
+  ChaincodeProposalPayloadSchema,
+} from "../generated_protos/peer/proposal_pb";
+import {
+  EndorsementSchema,
+  ProposalResponsePayloadSchema,
+  ResponseSchema,
+} from "../generated_protos/peer/proposal_response_pb";
+import { ChaincodeInvocationSpecSchema } from "../generated_protos/peer/chaincode_pb";
+import { ChaincodeEventSchema } from "../generated_protos/peer/chaincode_event_pb";
+import { TxReadWriteSetSchema } from "../generated_protos/ledger/rwset/rwset_pb";
+import { HashedRWSetSchema, KVRWSetSchema } from "../generated_protos/ledger/rwset/kvrwset/kv_rwset_pb";
+
+const utf8 = (text: string) => new TextEncoder().encode(text);
+const CREATOR_CERT = "-----BEGIN CERTIFICATE-----\nclient\n-----END CERTIFICATE-----\n";
+const ENDORSER_CERT = "-----BEGIN CERTIFICATE-----\npeer0\n-----END CERTIFICATE-----\n";
+
+function buildPreparedPayload(): Uint8Array {
+  const kvRwSet = create(KVRWSetSchema, {
+    reads: [{ key: "asset1", version: { blockNum: 5n, txNum: 2n } }],
+    writes: [{ key: "asset1", value: utf8('{"ID":"asset1","Size":10}') }],
+  });
+  const hashedRwSet = create(HashedRWSetSchema, {
+    hashedWrites: [{ keyHash: new Uint8Array([0xaa]), valueHash: new Uint8Array([0xbb]) }],
+  });
+  const results = create(TxReadWriteSetSchema, {
+    nsRwset: [
+      {
+        namespace: "basic",
+        rwset: toBinary(KVRWSetSchema, kvRwSet),
+        collectionHashedRwset: [
+          {
+            collectionName: "secrets",
+            hashedRwset: toBinary(HashedRWSetSchema, hashedRwSet),
+            pvtRwsetHash: new Uint8Array([0xcc]),
+          },
+        ],
+      },
+    ],
+  });
+  const chaincodeAction = create(ChaincodeActionSchema, {
+    results: toBinary(TxReadWriteSetSchema, results),
+    events: toBinary(
+      ChaincodeEventSchema,
+      create(ChaincodeEventSchema, {
+        chaincodeId: "basic",
+        txId: "a_mock_tx_id",
+        eventName: "AssetUpdated",
+        payload: utf8('{"ID":"asset1"}'),
+      }),
+    ),
+    response: create(ResponseSchema, { status: 200, payload: utf8('{"ok":true}') }),
+    chaincodeId: { name: "basic", version: "1.0" },
+  });
+  const proposalPayload = create(ChaincodeProposalPayloadSchema, {
+    input: toBinary(
+      ChaincodeInvocationSpecSchema,
+      create(ChaincodeInvocationSpecSchema, {
+        chaincodeSpec: { input: { args: [utf8("UpdateAsset"), utf8("asset1"), utf8("10")] } },
+      }),
+    ),
+  });
+  const actionPayload = create(ChaincodeActionPayloadSchema, {
+    chaincodeProposalPayload: toBinary(ChaincodeProposalPayloadSchema, proposalPayload),
+    action: create(ChaincodeEndorsedActionSchema, {
+      proposalResponsePayload: toBinary(
+        ProposalResponsePayloadSchema,
+        create(ProposalResponsePayloadSchema, {
+          extension: toBinary(ChaincodeActionSchema, chaincodeAction),
+        }),
+      ),
+      endorsements: [
+        create(EndorsementSchema, {
+          endorser: createSerializedIdentityBytes("Org1MSP", ENDORSER_CERT),
+          signature: new Uint8Array([0x30, 0x45]),
+        }),
+      ],
+    }),
+  });
+  const transaction = create(TransactionSchema, {
+    actions: [
+      create(TransactionActionSchema, {
+        payload: toBinary(ChaincodeActionPayloadSchema, actionPayload),
+      }),
+    ],
+  });
+  const header = create(HeaderSchema, {
+    channelHeader: toBinary(
+      ChannelHeaderSchema,
+      create(ChannelHeaderSchema, {
+        type: HeaderType.ENDORSER_TRANSACTION,
+        channelId: "mychannel",
+        txId: "a_mock_tx_id",
+        timestamp: timestampFromDate(new Date("2024-01-02T03:04:05.000Z")),
+      }),
+    ),
+    signatureHeader: toBinary(
+      SignatureHeaderSchema,
+      create(SignatureHeaderSchema, {
+        creator: createSerializedIdentityBytes("Org1MSP", CREATOR_CERT),
+        nonce: new Uint8Array([1, 2]),
+      }),
+    ),
+  });
+  const payload = create(PayloadSchema, {
+    header,
+    data: toBinary(TransactionSchema, transaction),
+  });
+  return toBinary(PayloadSchema, payload);
+}
+
+describe("decodePreparedTransaction", () => {
+  it("should decode every part of a prepared transaction into plain data", () => {
+    const inspected = decodePreparedTransaction(buildPreparedPayload(), jsonCodec);
+
+    expect(inspected.channelHeader).toMatchObject({
+      type: "ENDORSER_TRANSACTION",
+      channelId: "mychannel",
+      txId: "a_mock_tx_id",
+      timestamp: "2024-01-02T03:04:05.000Z",
+    });
+    expect(inspected.creator).toEqual({ mspId: "Org1MSP", certificate: CREATOR_CERT });
+    expect(inspected.nonce).toBe("0102");
+
+    const [action] = inspected.actions;
+    expect(action.functionName).toBe("UpdateAsset");
+    expect(action.args).toEqual(["asset1", "10"]);
+    expect(action.response).toEqual({ status: 200, message: "", payload: { ok: true } });
+    expect(action.readWriteSets).toEqual([
+      {
+        namespace: "basic",
+        reads: [{ key: "asset1", version: { blockNumber: "5", txNumber: "2" } }],
+        writes: [{ key: "asset1", isDelete: false, value: { ID: "asset1", Size: 10 } }],
+        rangeQueryCount: 0,
+        privateData: [
+          {
+            collectionName: "secrets",
+            pvtRwsetHash: "cc",
+            hashedReads: [],
+            hashedWrites: [{ keyHash: "aa", isDelete: false, valueHash: "bb" }],
+          },
+        ],
+      },
+    ]);
+    expect(action.event).toEqual({
+      chaincodeName: "basic",
+      txId: "a_mock_tx_id",
+      eventName: "AssetUpdated",
+      payload: { ID: "asset1" },
+    });
+    expect(action.endorsements).toEqual([
+      { endorser: { mspId: "Org1MSP", certificate: ENDORSER_CERT }, signature: "3045" },
+    ]);
+    expect(inspected.signature).toBe("");
+    expect(() => JSON.stringify(inspected)).not.toThrow();
+  });
+
+  it("should dig the chaincode result out of the prepared payload", () => {
+    const result = extractChaincodeResult(buildPreparedPayload());
+    expect(new TextDecoder().decode(result)).toBe('{"ok":true}');
+  });
+});
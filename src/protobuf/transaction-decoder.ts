@@ -0,0 +1,298 @@
+import { fromBinary } from "@bufbuild/protobuf";
+import { timestampDate } from "@bufbuild/protobuf/wkt";
+import type {
+  DecodedChaincodeAction,
+  DecodedChannelHeader,
+  DecodedCollectionHashes,
+  DecodedIdentity,
+  DecodedKeyVersion,
+  DecodedNamespaceReadWriteSet,
+  InspectedTransaction,
+  PayloadCodec,
+} from "../models";
+import {
+  ChannelHeaderSchema,
+  EnvelopeSchema,
+  HeaderType,
+  PayloadSchema,
+  SignatureHeaderSchema,
+  type Envelope,
+  type Payload,
+} from "../generated_protos/common/common_pb";
+import { SerializedIdentitySchema } from "../generated_protos/msp/identities_pb";
+import {
+  ChaincodeActionPayloadSchema,
+  TransactionSchema,
+  type TransactionAction,
+} from "../generated_protos/peer/transaction_pb";
+import {
+  ChaincodeActionSchema,
+  ChaincodeProposalPayloadSchema,
+} from "../generated_protos/peer/proposal_pb";
+import { ProposalResponsePayloadSchema } from "../generated_protos/peer/proposal_response_pb";
+import { ChaincodeInvocationSpecSchema } from "../generated_protos/peer/chaincode_pb";
+import { ChaincodeEventSchema } from "../generated_protos/peer/chaincode_event_pb";
+import { TxReadWriteSetSchema } from "../generated_protos/ledger/rwset/rwset_pb";
+import {
+  HashedRWSetSchema,
+  KVRWSetSchema,
+  type Version,
+} from "../generated_protos/ledger/rwset/kvrwset/kv_rwset_pb";
+import { bytesToHexString } from "../utils/utils";
+import { decodeChaincodePayload } from "./parser";
+
+const textDecoder = new TextDecoder("utf-8", { fatal: true });
+
+function bytesToText(bytes: Uint8Array): string {
+  try {
+    return textDecoder.decode(bytes);
+  } catch {
+    return `(binary) 0x${bytesToHexString(bytes)}`;
+  }
+}
+
+export function decodeIdentity(
+  serializedIdentity: Uint8Array,
+): DecodedIdentity {
+  const identity = fromBinary(SerializedIdentitySchema, serializedIdentity);
+  return {
+    mspId: identity.mspid,
+    certificate: bytesToText(identity.idBytes),
+  };
+}
+
+function decodeVersion(version?: Version): DecodedKeyVersion | undefined {
+  return version
+    ? {
+        blockNumber: version.blockNum.toString(),
+        txNumber: version.txNum.toString(),
+      }
+    : undefined;
+}
+
+export function decodeChannelHeader(
+  channelHeaderBytes: Uint8Array,
+): DecodedChannelHeader {
+  const header = fromBinary(ChannelHeaderSchema, channelHeaderBytes);
+  return {
+    type: HeaderType[header.type] ?? String(header.type),
+    version: header.version,
+    timestamp: header.timestamp
+      ? timestampDate(header.timestamp).toISOString()
+      : undefined,
+    channelId: header.channelId,
+    txId: header.txId,
+    epoch: header.epoch.toString(),
+    tlsCertHash: bytesToHexString(header.tlsCertHash),
+  };
+}
+
+/**
+ * One chaincode value through the codec. A value the codec can't read (a `_lifecycle` protobuf write in an
+ * otherwise JSON channel, say) gets `autoCodec`'s best guess instead, so it can't sink the whole block.
+ */
+function decodeValue(bytes: Uint8Array, codec: PayloadCodec): any {
+  try {
+    return codec.decode(bytes);
+  } catch {
+    return decodeChaincodePayload(bytes);
+  }
+}
+
+/** Decodes a `KVRWSet`, the plain read/write set of one namespace, public or private. */
+export function decodeKvRwSet(
+  rwSetBytes: Uint8Array,
+  codec: PayloadCodec,
+): Pick<DecodedNamespaceReadWriteSet, "reads" | "writes" | "rangeQueryCount"> {
+  const kvRwSet = fromBinary(KVRWSetSchema, rwSetBytes);
+  return {
+    reads: kvRwSet.reads.map((read) => ({
+      key: read.key,
+      version: decodeVersion(read.version),
+    })),
+    writes: kvRwSet.writes.map((write) => ({
+      key: write.key,
+      isDelete: write.isDelete,
+      value: write.isDelete ? null : decodeValue(write.value, codec),
+    })),
+    rangeQueryCount: kvRwSet.rangeQueriesInfo.length,
+  };
+}
+
+function decodeReadWriteSets(
+  resultsBytes: Uint8Array,
+  codec: PayloadCodec,
+): DecodedNamespaceReadWriteSet[] {
+  const txRwSet = fromBinary(TxReadWriteSetSchema, resultsBytes);
+  return txRwSet.nsRwset.map((ns) => {
+    const privateData: DecodedCollectionHashes[] = ns.collectionHashedRwset.map(
+      (collection) => {
+        const hashed = fromBinary(HashedRWSetSchema, collection.hashedRwset);
+        return {
+          collectionName: collection.collectionName,
+          pvtRwsetHash: bytesToHexString(collection.pvtRwsetHash),
+          hashedReads: hashed.hashedReads.map((read) => ({
+            keyHash: bytesToHexString(read.keyHash),
+            version: decodeVersion(read.version),
+          })),
+          hashedWrites: hashed.hashedWrites.map((write) => ({
+            keyHash: bytesToHexString(write.keyHash),
+            isDelete: write.isDelete,
+            valueHash: bytesToHexString(write.valueHash),
+          })),
+        };
+      },
+    );
+
+    return {
+      namespace: ns.namespace,
+      ...decodeKvRwSet(ns.rwset, codec),
+      privateData,
+    };
+  });
+}
+
+function decodeChaincodeAction(
+  transactionAction: TransactionAction,
+  codec: PayloadCodec,
+): DecodedChaincodeAction {
+  const actionPayload = fromBinary(
+    ChaincodeActionPayloadSchema,
+    transactionAction.payload,
+  );
+
+  const proposalPayload = fromBinary(
+    ChaincodeProposalPayloadSchema,
+    actionPayload.chaincodeProposalPayload,
+  );
+  const invocationSpec = fromBinary(
+    ChaincodeInvocationSpecSchema,
+    proposalPayload.input,
+  );
+  const [functionName = new Uint8Array(), ...args] =
+    invocationSpec.chaincodeSpec?.input?.args ?? [];
+
+  const endorsedAction = actionPayload.action;
+  const responsePayload = fromBinary(
+    ProposalResponsePayloadSchema,
+    endorsedAction?.proposalResponsePayload ?? new Uint8Array(),
+  );
+  const chaincodeAction = fromBinary(
+    ChaincodeActionSchema,
+    responsePayload.extension,
+  );
+
+  let event: DecodedChaincodeAction["event"];
+  if (chaincodeAction.events.length > 0) {
+    const chaincodeEvent = fromBinary(
+      ChaincodeEventSchema,
+      chaincodeAction.events,
+    );
+    event = {
+      chaincodeName: chaincodeEvent.chaincodeId,
+      txId: chaincodeEvent.txId,
+      eventName: chaincodeEvent.eventName,
+      payload: decodeValue(chaincodeEvent.payload, codec),
+    };
+  }
+
+  return {
+    chaincodeName: chaincodeAction.chaincodeId?.name ?? "",
+    chaincodeVersion: chaincodeAction.chaincodeId?.version ?? "",
+    functionName: bytesToText(functionName),
+    args: args.map(bytesToText),
+    response: {
+      status: chaincodeAction.response?.status ?? 0,
+      message: chaincodeAction.response?.message ?? "",
+      payload: decodeValue(
+        chaincodeAction.response?.payload ?? new Uint8Array(),
+        codec,
+      ),
+    },
+    readWriteSets: decodeReadWriteSets(chaincodeAction.results, codec),
+    event,
+    endorsements: (endorsedAction?.endorsements ?? []).map((endorsement) => ({
+      endorser: decodeIdentity(endorsement.endorser),
+      signature: bytesToHexString(endorsement.signature),
+    })),
+  };
+}
+
+/** The common part of a block's envelope and a prepared transaction: both wrap a `common.Payload`. */
+function decodePayload(
+  payload: Payload,
+  signature: Uint8Array,
+  codec: PayloadCodec,
+): InspectedTransaction {
+  if (!payload.header) {
+    throw new Error("The transaction payload has no header.");
+  }
+
+  const channelHeader = decodeChannelHeader(payload.header.channelHeader);
+  const signatureHeader = fromBinary(
+    SignatureHeaderSchema,
+    payload.header.signatureHeader,
+  );
+  const actions =
+    channelHeader.type === HeaderType[HeaderType.ENDORSER_TRANSACTION]
+      ? fromBinary(TransactionSchema, payload.data).actions.map((action) =>
+          decodeChaincodeAction(action, codec),
+        )
+      : [];
+
+  return {
+    channelHeader,
+    creator: decodeIdentity(signatureHeader.creator),
+    nonce: bytesToHexString(signatureHeader.nonce),
+    actions,
+    signature: bytesToHexString(signature),
+  };
+}
+
+/**
+ * Decodes any envelope, raw or already parsed, whatever its type. Only endorser transactions have chaincode actions;
+ * for the rest (config updates and the like) `actions` is empty and the header tells you what it was.
+ */
+export function decodeEnvelope(
+  envelopeOrBytes: Envelope | Uint8Array,
+  codec: PayloadCodec,
+): InspectedTransaction {
+  const envelope = ArrayBuffer.isView(envelopeOrBytes)
+    ? fromBinary(EnvelopeSchema, envelopeOrBytes)
+    : envelopeOrBytes;
+  return decodePayload(
+    fromBinary(PayloadSchema, envelope.payload),
+    envelope.signature,
+    codec,
+  );
+}
+
+/**
+ * Q: What's actually inside a prepared transaction?
+ * A: Everything the orderer and the committing peers will look at: who is submitting it, to which channel,
+ *    which chaincode function ran with which arguments, what it read and wants to write (per namespace,
+ *    private data as hashes only), the event it emits, and who endorsed it. This unpacks all of it
+ *    into plain data. Chaincode values (write values, the response and event payloads) go through the codec;
+ *    one it can't decode comes out as `autoCodec` would have it (`(binary) 0x…` for bytes) instead of throwing.
+ *    It takes the gateway's prepared bytes, a `common.Payload` that isn't in an envelope yet, so `signature`
+ *    is always empty; blocks hold whole envelopes and go through `decodeEnvelope` instead.
+ */
+export function decodePreparedTransaction(
+  payloadBytes: Uint8Array,
+  codec: PayloadCodec,
+): InspectedTransaction {
+  const transaction = decodePayload(
+    fromBinary(PayloadSchema, payloadBytes),
+    new Uint8Array(),
+    codec,
+  );
+  if (
+    transaction.channelHeader.type !==
+    HeaderType[HeaderType.ENDORSER_TRANSACTION]
+  ) {
+    throw new Error(
+      `Expected an endorser transaction, got a ${transaction.channelHeader.type} payload.`,
+    );
+  }
+  return transaction;
+}
@@ -0,0 +1,47 @@
+import type { BackoffOptions } from "../models";
+
+const DEFAULT_INITIAL_DELAY_MS = 250;
+const DEFAULT_MAX_DELAY_MS = 10_000;
+const DEFAULT_MULTIPLIER = 2;
+
+/**
+ * Exponential backoff: how long to wait before the given attempt (1 = the first retry).
+ */
+export function getBackoffDelay(
+  attempt: number,
+  options: BackoffOptions = {},
+): number {
+  const initialDelayMs = options.initialDelayMs ?? DEFAULT_INITIAL_DELAY_MS;
+  const maxDelayMs = options.maxDelayMs ?? DEFAULT_MAX_DELAY_MS;
+  const multiplier = options.multiplier ?? DEFAULT_MULTIPLIER;
+
+  const delay = Math.min(
+    initialDelayMs * Math.pow(multiplier, Math.max(0, attempt - 1)),
+    maxDelayMs,
+  );
+  return options.jitter ? Math.random() * delay : delay;
+}
+
+export function abortError(): Error {
+  const error = new Error("AbortError");
+  error.name = "AbortError";
+  return error;
+}
+
+/**
+ * A `setTimeout` you can await and cancel. Rejects with an `AbortError` if the signal fires first.
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(abortError());
+    const abortHandler = () => {
+      clearTimeout(timer);
+      reject(abortError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", abortHandler);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", abortHandler, { once: true });
+  });
+}
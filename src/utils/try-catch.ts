@@ -1,11 +1,14 @@
 import type { Result } from "../models";
 import { getGroundedError } from "./error-parser";
+import { FabricError } from "../errors";
 
 /**
  * A higher-order function that wraps a promise-returning function in a try-catch
  * block. It's our standard way to handle errors gracefully across the library,
  * ensuring we always return a predictable `Result` object.
  * No more raw `throw`s escaping into the wild.
+ * Typed errors (anything extending `FabricError`) are passed through as-is,
+ * so callers can still branch on the failure type.
  *
  * @param promiseFn A function that returns a Promise. This is the core logic.
  * @param errorFn An optional, custom error parser. Defaults to our gRPC-aware parser.
@@ -19,6 +22,9 @@ export async function tryCatch<T>(
     const data = await promiseFn();
     return { success: true, data, error: null };
   } catch (caughtError) {
+    if (caughtError instanceof FabricError) {
+      return { success: false, data: null, error: caughtError };
+    }
     return {
       success: false,
       data: null,
@@ -1,3 +1,34 @@
 export function zeroUint8Array(arr: Uint8Array) {
   arr.fill(0);
 }
+
+export function bytesToHexString(bytes: Uint8Array): string {
+  return (bytes ?? new Uint8Array()).reduce(
+    (s, byte) => s + byte.toString(16).padStart(2, "0"),
+    "",
+  );
+}
+
+/**
+ * Maps `items` through `fn` with at most `limit` calls in flight at once. Results keep the order of `items`.
+ * A `limit` below 1, or not a number at all, still runs one at a time.
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>,
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+  const workers = Number.isNaN(limit)
+    ? 1
+    : Math.max(1, Math.min(Math.floor(limit), items.length));
+  await Promise.all(Array.from({ length: workers }, worker));
+  return results;
+}
@@ -15,6 +15,7 @@ export default defineConfig({
   external: [
     "@bufbuild/protobuf",
     "@connectrpc/connect",
+    "@connectrpc/connect-node",
     "@connectrpc/connect-web",
     "@noble/hashes",
     "@scure/bip39",